@@ -5,6 +5,7 @@
  * @Last Modified time: 2024-12-17 13:16:53
  */
 import "react-big-calendar/lib/css/react-big-calendar.css";
+import "react-big-calendar/lib/addons/dragAndDrop/styles.css";
 import "./css/react-big-calendar.override.css";
 import * as React from "react";
 import { IInputs } from "./generated/ManifestTypes";
@@ -15,28 +16,51 @@ import {
   SlotInfo,
   EventProps, ResourceHeaderProps
 } from "react-big-calendar";
+import withDragAndDrop from "react-big-calendar/lib/addons/dragAndDrop";
 import * as CalendarUtils from "./utils";
 import { StartOfWeek } from "date-arithmetic";
-import { IEvent, Resource } from "./types";
+import { IEvent, Resource, QuickPopover, EventFilter, EventSelectionMode, DayTotals, FocusedSlot, CalendarState } from "./types";
 import GetMessages from "./components/Translations";
 import * as moment from "moment";
-import { useCalendarHourRange, useDayLayoutAlgorithm, useEventSelectable, useCalendarSelectable, useCalendarStepAndTimeslots, useCalendarDate, useCalendarPopup, useEventHeaderFormat, useCalendarView, useCalendarData, useCalendarColors } from "./hooks";
+import { useCalendarHourRange, useDayLayoutAlgorithm, useEventSelectable, useEventDraggable, useCalendarSelectable, useCalendarStepAndTimeslots, useCalendarDate, useCalendarPopup, useEventHeaderFormat, useCalendarView, useCalendarData, useCalendarEvents, useCalendarShowExport, useCalendarShowPrint, useCalendarShowFilter, useCalendarColors, useTimeZoneConverter, useWorkingHours, useCalendarSelectWorkingHoursOnly, useEventConflicts, useEventOpenInPopover, useHolidayEvents, useHolidayBlockSelection, useMonthHeatmap, useCalendarAccessibilityMode, useCalendarRememberState } from "./hooks";
 import { eventPropsGetter, dayPropsGetter } from "./getters";
-import { handleSlotSelect, handleEventSelected, handleEventKeyPress, handleOnView, handleNavigate } from "./handlers";
-import { timeGutterHeaderRenderer, resourceHeaderRenderer, agendaEventRenderer,timeSlotWrapperRenderer } from "./renderers";
+import { handleSlotSelect, handleEventSelected, handleEventKeyPress, handleEventMove, handleOnView, handleNavigate, handleDrillDown } from "./handlers";
+import { timeGutterHeaderRenderer, resourceHeaderRenderer, agendaEventRenderer, eventRenderer, EventContentContext } from "./renderers";
 import { tooltipAccessor } from "./accessors/tooltipAccessor";
+import { CalendarToolbar, CalendarToolbarContext, IToolbarAction } from "./components/CalendarToolbar";
+import { CalendarFilterBar } from "./components/CalendarFilterBar";
+import { CalendarLegend } from "./components/CalendarLegend";
+import { QuickCreatePopover } from "./components/QuickCreatePopover";
+import { QuickViewPopover } from "./components/QuickViewPopover";
+import { EventContextMenu } from "./components/EventContextMenu";
+import { DuplicatePopover } from "./components/DuplicatePopover";
+import { CalendarSlotContext, DateCellWrapper, TimeGutterWrapper, TimeSlotWrapper } from "./components/CalendarSlots";
 export interface IProps {
   pcfContext: ComponentFramework.Context<IInputs>;
-  onClickSelectedRecord: (recordId: string) => void;
-  onClickSlot: (start: Date, end: Date, resourceId: string) => void;
+  onClickSelectedRecord: (recordId: string, occurrenceStart?: Date) => void;
+  onClickSlot: (start: Date, end: Date, resourceId: string, allDay: boolean) => void;
+  onRecordMoved: (recordId: string, start: Date, end: Date, resourceId: string) => void;
+  onDuplicateRequested: (duplicateRequest: string) => void;
   onCalendarChange: (
     date: Date,
     rangeStart: Date,
     rangeEnd: Date,
     view: View
   ) => void;
+  onIcsExported: (icsContent: string) => void;
+  onConflictsDetected: (conflictingRecordIds: string) => void;
+  onEventsFiltered: (filteredRecordIds: string) => void;
+  onRecordsSelected: (selectedRecordIds: string) => void;
+  onPdfExported: (pdfContent: string) => void;
+  exportIcsRequest?: number;
+  exportPdfRequest?: number;
+  //the view, date and filter remembered from the last session, read in init before the first data load
+  savedState?: CalendarState;
 }
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const DnDCalendar = withDragAndDrop<IEvent, Resource>(Calendar as any);
+
 export const CalendarControl: React.FC<IProps> = (props) => {
   //set our moment to the current calendar culture for use of it outside the calendar.
   const localizer = momentLocalizer(moment);
@@ -62,10 +86,15 @@ export const CalendarControl: React.FC<IProps> = (props) => {
   const calendarCulture = CalendarUtils.getISOLanguage(props.pcfContext);
   const calendarMessages = GetMessages(calendarCulture);
   const calendarRtl = props.pcfContext.userSettings.isRTL;
+  // Use custom hook for remembering the view, date, filter and scroll position between sessions
+  const rememberState = useCalendarRememberState(props.pcfContext);
+  // The state saved in the last session is only applied when the calendar is loaded
+  const [savedState] = React.useState<CalendarState | undefined>(props.savedState);
+  const savedScrollHour = savedState?.scrollHour ?? props.pcfContext.parameters.calendarScrollToTime?.raw ?? 0;
   const calendarScrollTo = moment()
     .set({
-      hour: props.pcfContext.parameters.calendarScrollToTime?.raw || 0,
-      minute: 0,
+      hour: Math.floor(savedScrollHour),
+      minute: Math.round((savedScrollHour % 1) * 60),
       seconds: 0,
     })
     .toDate();
@@ -78,10 +107,28 @@ export const CalendarControl: React.FC<IProps> = (props) => {
   const dayLayoutAlgorithm = useDayLayoutAlgorithm(props.pcfContext);
   // Use custom hook for calendarSelectable
   const calendarSelectable = useCalendarSelectable(props.pcfContext);
+  // Use custom hook to only allow selecting slots inside the working hours
+  const selectWorkingHoursOnly = useCalendarSelectWorkingHoursOnly(props.pcfContext);
   // Use custom hook for event selectable
   const isEventSelectable = useEventSelectable(props.pcfContext);
+  // Use custom hook for event draggable
+  const isEventDraggable = useEventDraggable(props.pcfContext);
   // Use custom hook for calendarPopup
   const calendarPopup = useCalendarPopup(props.pcfContext);
+  // Use custom hook for showing the export button
+  const calendarShowExport = useCalendarShowExport(props.pcfContext);
+  // Use custom hook for showing the print and PDF buttons
+  const calendarShowPrint = useCalendarShowPrint(props.pcfContext);
+  // Use custom hook for showing the filter bar
+  const calendarShowFilter = useCalendarShowFilter(props.pcfContext);
+  // Use custom hook for opening records in a popover instead of the form in model apps
+  const eventOpenInPopover = useEventOpenInPopover(props.pcfContext);
+  // Use custom hook for moving around the calendar with the keyboard
+  const accessibilityMode = useCalendarAccessibilityMode(props.pcfContext);
+  // Use custom hook for converting dates to and from the display time zone
+  const timeZoneConverter = useTimeZoneConverter(props.pcfContext);
+  // Today and the current time indicator use the display time zone
+  const _getNow = () => timeZoneConverter.toDisplayTime(new Date());
 
   const calendarViews = CalendarUtils.getCalendarViews(
     props.pcfContext,
@@ -92,15 +139,90 @@ export const CalendarControl: React.FC<IProps> = (props) => {
 
   const [calendarView, setCalendarView] = useCalendarView(
     calendarViews,
-    props.pcfContext.parameters.calendarView?.raw || ""
+    props.pcfContext.parameters.calendarView?.raw || "",
+    savedState?.view
   );
   // Adapter for setCalendarView to match (view: string) => void signature
   const setCalendarViewString = (view: string) => setCalendarView(view as View);
 
   // Use custom hook for calendarDate, pass localized moment
-  const [calendarDate, setCalendarDate] = useCalendarDate(props.pcfContext, moment);
+  const [calendarDate, setCalendarDate] = useCalendarDate(
+    props.pcfContext,
+    moment,
+    savedState?.date ? new Date(savedState.date) : undefined
+  );
   const calendarRef = React.useRef(null);
   const [calendarData, setCalendarData] = useCalendarData(props.pcfContext);
+  // Use custom hook to get the working hours of each resource
+  const getWorkingHours = useWorkingHours(props.pcfContext, calendarData.resources);
+  // The records are filtered by the filter bar before the recurring events are expanded
+  const [eventFilter, setEventFilter] = React.useState<EventFilter>(
+    savedState?.filter || CalendarUtils.EMPTY_EVENT_FILTER
+  );
+  const filteredEvents = React.useMemo(
+    () =>
+      calendarShowFilter
+        ? CalendarUtils.filterEvents(calendarData.events, eventFilter)
+        : calendarData.events,
+    [calendarData.events, eventFilter, calendarShowFilter]
+  );
+  // Use custom hook to expand recurring events into the occurrences in the current range
+  // and add any events from the ICS content
+  const calendarEvents = useCalendarEvents(
+    filteredEvents,
+    calendarDate,
+    calendarView,
+    calendarCulture,
+    props.pcfContext.parameters.calendarIcsContent?.raw || "",
+    props.pcfContext.parameters.calendarIcsMode?.raw || CalendarUtils.DEFAULT_ICS_MODE,
+    timeZoneConverter
+  );
+  // Use custom hook to flag the occurrences that overlap on the same resource
+  const eventConflicts = useEventConflicts(props.pcfContext, calendarEvents);
+
+  // Categories hidden by clicking on them in the legend
+  const [hiddenCategories, setHiddenCategories] = React.useState<string[]>([]);
+  const visibleEvents = hiddenCategories.length > 0
+    ? eventConflicts.events.filter((e) => !e.category || !hiddenCategories.includes(e.category))
+    : eventConflicts.events;
+
+  // Use custom hook to shade the days and summarize busy days in the month view
+  const heatmapSettings = useMonthHeatmap(props.pcfContext);
+  const isMonthView = calendarView === "month";
+  const dayTotals = React.useMemo(
+    () =>
+      isMonthView && (heatmapSettings.mode !== "off" || heatmapSettings.eventLimit > 0)
+        ? CalendarUtils.getDayTotals(visibleEvents)
+        : new Map<string, DayTotals>(),
+    [visibleEvents, isMonthView, heatmapSettings]
+  );
+  const displayedEvents = React.useMemo(
+    () =>
+      isMonthView
+        ? CalendarUtils.summarizeBusyDays(
+            visibleEvents,
+            dayTotals,
+            heatmapSettings.eventLimit,
+            (totals) =>
+              calendarMessages.daySummary?.(totals.count, Math.round(totals.hours * 10) / 10) ||
+              `${totals.count}`
+          )
+        : visibleEvents,
+    [visibleEvents, dayTotals, isMonthView, heatmapSettings.eventLimit]
+  );
+
+  React.useEffect(() => {
+    props.onConflictsDetected(
+      eventConflicts.conflicts.length > 0 ? JSON.stringify(eventConflicts.conflicts) : ""
+    );
+  }, [eventConflicts.conflicts]);
+
+  React.useEffect(() => {
+    const isFiltered = calendarShowFilter && CalendarUtils.isFilterActive(eventFilter);
+    props.onEventsFiltered(
+      isFiltered ? JSON.stringify(filteredEvents.map((e) => e.id).filter((id) => id)) : ""
+    );
+  }, [filteredEvents]);
 
   React.useEffect(() => {
     if (calendarDate && calendarView) {
@@ -108,6 +230,21 @@ export const CalendarControl: React.FC<IProps> = (props) => {
     }
   }, [calendarDate, calendarView]);
 
+  // Saves the view and date so they are restored the next time the calendar is loaded
+  React.useEffect(() => {
+    if (!rememberState || !calendarDate || !calendarView) return;
+    CalendarUtils.saveCalendarState(props.pcfContext, {
+      view: calendarView,
+      date: calendarDate.toISOString(),
+    });
+  }, [rememberState, calendarDate, calendarView]);
+
+  // Saves the selected resources and the rest of the filter every time they change
+  React.useEffect(() => {
+    if (!rememberState) return;
+    CalendarUtils.saveCalendarState(props.pcfContext, { filter: eventFilter });
+  }, [rememberState, eventFilter]);
+
   const {
     eventDefaultBackgroundColor,
     calendarTodayBackgroundColor,
@@ -115,28 +252,374 @@ export const CalendarControl: React.FC<IProps> = (props) => {
     calendarBorderColor,
     calendarTimeBarBackgroundColor,
     weekendColor,
+    nonWorkingColor,
+    holidayColor,
   } = useCalendarColors(props.pcfContext, eventHeaderFormat);
 
+  // Use custom hook to get the holidays and blackout dates displayed behind the events
+  const holidayEvents = useHolidayEvents(props.pcfContext, holidayColor);
+  const backgroundEvents = React.useMemo(
+    () => CalendarUtils.assignHolidaysToResources(holidayEvents, calendarData.resources),
+    [holidayEvents, calendarData.resources]
+  );
+  // Use custom hook to block selecting slots on holidays and blackout dates
+  const holidayBlockSelection = useHolidayBlockSelection(props.pcfContext);
+
+  // The quick create or quick view popover currently shown in model apps
+  const [quickPopover, setQuickPopover] = React.useState<QuickPopover | undefined>();
+  const _dismissQuickPopover = React.useCallback(() => setQuickPopover(undefined), []);
+
+  const _showQuickView = (event: IEvent, target?: HTMLElement) => {
+    const rect = target?.getBoundingClientRect();
+    setQuickPopover({
+      type: "view",
+      event: event,
+      position: rect
+        ? { x: rect.right, y: rect.top }
+        : { x: window.innerWidth / 2, y: window.innerHeight / 2 },
+    });
+  };
+
+  const _showQuickCreate = (slotInfo: SlotInfo, allDay: boolean) =>
+    setQuickPopover({
+      type: "create",
+      start: slotInfo.start,
+      end: slotInfo.end,
+      resourceId: slotInfo.resourceId ? String(slotInfo.resourceId) : undefined,
+      // date only fields cannot hold a time
+      allDay: allDay || !!calendarData.keys?.dateOnly,
+      position: CalendarUtils.getSlotPosition(slotInfo),
+    });
+
+  const _saveQuickCreate = async (
+    name: string,
+    start: Date,
+    end: Date,
+    resourceId?: string
+  ) => {
+    const keys = calendarData.keys;
+    if (!keys || quickPopover?.type !== "create") return;
+    try {
+      await CalendarUtils.createEventRecord(
+        props.pcfContext,
+        keys,
+        name,
+        CalendarUtils.toRecordDate(keys, timeZoneConverter, start),
+        CalendarUtils.toRecordDate(keys, timeZoneConverter, end),
+        resourceId,
+        quickPopover.allDay
+      );
+      setQuickPopover(undefined);
+      props.pcfContext.parameters.calendarDataSet.refresh();
+    } catch (e) {
+      props.pcfContext.navigation.openErrorDialog({ message: (e as Error).message });
+    }
+  };
+
+  const _openRecord = (event: IEvent) => {
+    setQuickPopover(undefined);
+    props.pcfContext.navigation.openForm({
+      entityId: event.id as string,
+      entityName: props.pcfContext.parameters.calendarDataSet.getTargetEntityType(),
+      openInNewWindow: false,
+    });
+  };
+
+  // The event copied with ctrl + c or the context menu and the last slot selected since, which it is pasted on
+  const [copiedEvent, setCopiedEvent] = React.useState<IEvent | undefined>();
+  const pasteSlotRef = React.useRef<{ start: Date; resourceId?: string; allDay: boolean } | undefined>();
+
+  // Events loaded from ICS content do not have a record that can be copied
+  const _canDuplicate = (event: IEvent) =>
+    !!event.id &&
+    !event.background &&
+    !event.summary &&
+    !event.ics &&
+    // In canvas apps the id is the Event Id Field so it cannot be found in the records
+    (props.pcfContext.mode.allocatedHeight !== -1 ||
+      !!props.pcfContext.parameters.calendarDataSet.records[event.id]);
+
+  const _copyEvent = (event: IEvent) => {
+    setQuickPopover(undefined);
+    if (!_canDuplicate(event)) return;
+    setCopiedEvent(event);
+    pasteSlotRef.current = undefined;
+  };
+
+  // Creates a copy of the record with the same duration at the new start, in canvas apps the app creates it
+  const _duplicateEvent = async (event: IEvent, start: Date, resourceId?: string) => {
+    const end = new Date(start.getTime() + (event.end as Date).getTime() - (event.start as Date).getTime());
+    const recordId = event.id as string;
+    setQuickPopover(undefined);
+
+    if (props.pcfContext.mode.allocatedHeight !== -1) {
+      props.onDuplicateRequested(
+        JSON.stringify({
+          recordId: recordId,
+          start: timeZoneConverter.fromDisplayTime(start),
+          end: timeZoneConverter.fromDisplayTime(end),
+          resourceId: resourceId || (event.resource as string) || "",
+        })
+      );
+      return;
+    }
+
+    const keys = calendarData.keys;
+    if (!keys) return;
+    try {
+      await CalendarUtils.duplicateEventRecord(
+        props.pcfContext,
+        keys,
+        recordId,
+        CalendarUtils.toRecordDate(keys, timeZoneConverter, start),
+        CalendarUtils.toRecordDate(keys, timeZoneConverter, end),
+        resourceId
+      );
+      props.pcfContext.parameters.calendarDataSet.refresh();
+    } catch (e) {
+      props.pcfContext.navigation.openErrorDialog({ message: (e as Error).message });
+    }
+  };
+
+  // Pastes the copied event on the last slot selected, or at the same time on the date shown when
+  // there is none. the event keeps its time of day when pasted on a day instead of a time slot.
+  const _pasteEvent = () => {
+    if (!copiedEvent) return;
+    const slot = pasteSlotRef.current;
+    const eventStart = moment(copiedEvent.start);
+    const start =
+      slot && !slot.allDay && !copiedEvent.allDay
+        ? slot.start
+        : moment(slot ? slot.start : calendarDate)
+            .startOf("day")
+            .add(eventStart.diff(eventStart.clone().startOf("day")))
+            .toDate();
+    _duplicateEvent(copiedEvent, start, slot?.resourceId);
+  };
+
+  // The slot or day with the keyboard focus in the accessibility mode, the focus is moved to it after
+  // it is changed with the keyboard
+  const [focusedSlot, setFocusedSlot] = React.useState<FocusedSlot | undefined>();
+  const moveFocusRef = React.useRef<boolean>(false);
+  const containerRef = React.useRef<HTMLDivElement>(null);
+  const focusedSlotKey = focusedSlot
+    ? CalendarUtils.getSlotKey(focusedSlot.date, focusedSlot.resourceId)
+    : undefined;
+
+  // Keeps one of the slots in the view reachable with tab, the focused slot might not be displayed
+  // after navigating or changing the view so the closest one is used instead
+  React.useEffect(() => {
+    if (!accessibilityMode || !containerRef.current) return;
+    const slotElement = CalendarUtils.findSlotElement(containerRef.current, focusedSlot);
+    if (!slotElement) return;
+    if (slotElement.dataset.slotKey !== focusedSlotKey) {
+      setFocusedSlot(CalendarUtils.getFocusedSlot(slotElement));
+    } else if (moveFocusRef.current) {
+      moveFocusRef.current = false;
+      slotElement.focus();
+    }
+  });
+
+  // Saves the hour scrolled to in the day and week views, scroll events do not bubble so they are
+  // captured on the container and only saved once the scrolling stops
+  React.useEffect(() => {
+    const container = containerRef.current;
+    if (!rememberState || !container) return;
+    let timeout: number | undefined;
+    const _onScroll = (e: Event) => {
+      const target = e.target as HTMLElement;
+      if (!target.classList?.contains("rbc-time-content")) return;
+      window.clearTimeout(timeout);
+      timeout = window.setTimeout(() => {
+        CalendarUtils.saveCalendarState(props.pcfContext, {
+          scrollHour: CalendarUtils.getScrollHour(target, min, max),
+        });
+      }, 500);
+    };
+    container.addEventListener("scroll", _onScroll, true);
+    return () => {
+      window.clearTimeout(timeout);
+      container.removeEventListener("scroll", _onScroll, true);
+    };
+  }, [rememberState, min, max]);
+
+  const _moveFocusedSlot = (slot: FocusedSlot) => {
+    moveFocusRef.current = true;
+    setFocusedSlot(slot);
+    if (!moment(slot.date).isSame(calendarDate, "day")) {
+      setCalendarDate(slot.date);
+    }
+  };
+
+  // Arrow keys move between the slots, enter selects the focused slot and page up and page down move
+  // to the previous and next range
+  const _handleNavigationKey = (e: React.KeyboardEvent<HTMLDivElement>, target: HTMLElement) => {
+    if (e.key === "PageUp" || e.key === "PageDown") {
+      e.preventDefault();
+      const direction = e.key === "PageUp" ? -1 : 1;
+      if (target.dataset.slotKey && focusedSlot) {
+        _moveFocusedSlot({
+          ...focusedSlot,
+          date: CalendarUtils.getNavigateDate(focusedSlot.date, calendarView, direction),
+        });
+      } else {
+        setCalendarDate(CalendarUtils.getNavigateDate(calendarDate, calendarView, direction));
+      }
+      return;
+    }
+    if (!target.dataset.slotKey || !containerRef.current) return;
+    const slot = CalendarUtils.getFocusedSlot(target);
+
+    if (CalendarUtils.ARROW_KEYS.includes(e.key)) {
+      e.preventDefault();
+      const nextElement = CalendarUtils.getAdjacentSlot(containerRef.current, target, e.key, calendarRtl);
+      if (nextElement) {
+        moveFocusRef.current = true;
+        setFocusedSlot(CalendarUtils.getFocusedSlot(nextElement));
+        return;
+      }
+      // the slot is on the edge of the view so navigate to the next range
+      const nextDate = CalendarUtils.getEdgeSlotDate(
+        slot.date,
+        e.key,
+        isMonthView,
+        calendarRtl,
+        calendarView === "work_week" ? CalendarUtils.getWorkWeekIncludedDays(props.pcfContext) : undefined
+      );
+      if (nextDate) {
+        _moveFocusedSlot({ ...slot, date: nextDate });
+      }
+    } else if (CalendarUtils.VALID_KEYS.includes(e.key)) {
+      e.preventDefault();
+      const end = moment(slot.date)
+        .add(isMonthView ? 1440 : step, "minutes")
+        .toDate();
+      const rect = target.getBoundingClientRect();
+      _handleSlotSelect({
+        start: slot.date,
+        end: end,
+        slots: [slot.date, end],
+        action: "click",
+        resourceId: slot.resourceId,
+        box: { x: rect.right, y: rect.top, clientX: rect.right, clientY: rect.top },
+      });
+    }
+  };
+
+  const _handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName) || target.isContentEditable) {
+      return;
+    }
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === CalendarUtils.PASTE_KEY) {
+      _pasteEvent();
+    } else if (accessibilityMode) {
+      _handleNavigationKey(e, target);
+    }
+  };
+
+  const _showContextMenu = (event: IEvent, e: React.MouseEvent<HTMLElement>) => {
+    if (!_canDuplicate(event)) return;
+    e.preventDefault();
+    setQuickPopover({ type: "menu", event: event, position: { x: e.clientX, y: e.clientY } });
+  };
+
+  // The record ids selected with ctrl and shift click along with the last event clicked
+  const [selectedRecordIds, setSelectedRecordIds] = React.useState<string[]>([]);
+  const selectionAnchorRef = React.useRef<string | undefined>();
+
+  const _handleSelectionChange = (event: IEvent, mode: EventSelectionMode) => {
+    if (!event.id) return;
+    const ids = CalendarUtils.getSelectedRecordIds(
+      selectedRecordIds,
+      selectionAnchorRef.current,
+      event.id,
+      mode,
+      visibleEvents
+    );
+    if (mode !== "range") {
+      selectionAnchorRef.current = event.id;
+    }
+    setSelectedRecordIds(ids);
+    // the command bar actions such as delete and assign use the data set selection in model apps
+    if (props.pcfContext.mode.allocatedHeight === -1) {
+      props.pcfContext.parameters.calendarDataSet.setSelectedRecordIds(ids);
+    }
+    props.onRecordsSelected(JSON.stringify(ids));
+  };
+
   // Use handleEventSelected from handlers
   const _handleEventSelected = handleEventSelected(
     isEventSelectable,
     props.onClickSelectedRecord,
-    props.pcfContext
+    props.pcfContext,
+    eventOpenInPopover ? _showQuickView : undefined,
+    _handleSelectionChange,
+    (event: IEvent) => _handleDrillDown(event.start as Date, "day")
   );
 
-  const _handleEventKeyPress = handleEventKeyPress(_handleEventSelected);
+  const _handleEventKeyPress = handleEventKeyPress(_handleEventSelected, _copyEvent);
+
+  // Use handleEventMove from handlers for both dragging and resizing events
+  // Occurrences of recurring events cannot be moved individually
+  const _draggableAccessor = (event: IEvent) =>
+    isEventDraggable && !event.seriesStart && !event.background && !event.summary;
+
+  const _handleEventMove = handleEventMove(
+    isEventDraggable,
+    props.onRecordMoved,
+    props.pcfContext,
+    calendarData,
+    setCalendarData,
+    timeZoneConverter
+  );
+
+  const _isWorkingSlot = (date: Date, resourceId?: string | number) =>
+    CalendarUtils.isWorkingSlot(getWorkingHours(resourceId), date);
+
+  // Blocks selecting outside of the working hours when Calendar Selectable is set to workinghours
+  // and on holidays and blackout dates when Block Selection On Holidays is enabled
+  const _handleSelecting = (range: { start: Date; end: Date; resourceId?: string | number }) =>
+    (!selectWorkingHoursOnly ||
+      CalendarUtils.isWorkingRange(
+        getWorkingHours(range.resourceId),
+        range.start,
+        range.end,
+        CalendarUtils.isAllDaySlot(range.start, range.end)
+      )) &&
+    (!holidayBlockSelection ||
+      CalendarUtils.getHolidaysInRange(holidayEvents, range.start, range.end).length === 0);
 
   // Use handleSlotSelect from handlers
   // Adapter function to ensure correct typing for react-big-calendar
-  const _handleSlotSelect = (slotInfo: SlotInfo) =>
-    handleSlotSelect(props.onClickSlot, props.pcfContext, calendarData)({
+  const _handleSlotSelect = (slotInfo: SlotInfo) => {
+    // Clicks are not checked by onSelecting so check the working hours again
+    if (!_handleSelecting(slotInfo)) return;
+    if (copiedEvent) {
+      pasteSlotRef.current = {
+        start: slotInfo.start,
+        resourceId: slotInfo.resourceId ? String(slotInfo.resourceId) : undefined,
+        allDay: CalendarUtils.isAllDaySlot(slotInfo.start, slotInfo.end),
+      };
+    }
+    handleSlotSelect(
+      props.onClickSlot,
+      props.pcfContext,
+      calendarData,
+      timeZoneConverter,
+      eventOpenInPopover ? _showQuickCreate : undefined
+    )({
       ...slotInfo,
       resourceId: slotInfo.resourceId ? String(slotInfo.resourceId) : undefined,
     });
+  };
 
   // Use handleNavigate from handlers
   const _handleNavigate = handleNavigate(setCalendarDate, setCalendarViewString);
 
+  // Use handleDrillDown from handlers when a date is clicked to open it in the day view
+  const _handleDrillDown = handleDrillDown(setCalendarDate, setCalendarViewString, calendarViews);
+
   // Use handleOnView from handlers
   const _handleOnView = handleOnView(setCalendarViewString);
 
@@ -150,20 +633,177 @@ export const CalendarControl: React.FC<IProps> = (props) => {
     );
     props.onCalendarChange(
       ref.props.date,
-      rangeDates.start,
-      rangeDates.end,
+      timeZoneConverter.fromDisplayTime(rangeDates.start),
+      timeZoneConverter.fromDisplayTime(rangeDates.end),
       ref.props.view
     );
   };
 
+  // Serializes the events in the current range to an iCalendar document
+  const _exportIcs = (download: boolean) => {
+    const range = CalendarUtils.getCurrentRange(calendarDate, calendarView, calendarCulture);
+    const icsContent = CalendarUtils.createIcsDocument(
+      CalendarUtils.getEventsInRange(calendarEvents, range.start, range.end),
+      calendarData.resources,
+      timeZoneConverter
+    );
+    if (download) {
+      CalendarUtils.downloadTextFile(icsContent, "calendar.ics", "text/calendar");
+    }
+    props.onIcsExported(icsContent);
+  };
+
+  // Canvas apps request an export through the trigger property
+  React.useEffect(() => {
+    if (props.exportIcsRequest) {
+      _exportIcs(false);
+    }
+  }, [props.exportIcsRequest]);
+
+  // The print layout uses the colors of the events and days on the calendar
+  const _getPrintOptions = (range: { start: Date; end: Date }): CalendarUtils.PrintOptions => ({
+    title: `${moment(range.start).locale(calendarCulture).format("LL")} - ${moment(range.end)
+      .locale(calendarCulture)
+      .format("LL")}`,
+    culture: calendarCulture,
+    resources: calendarData.resources,
+    allDayLabel: calendarMessages.allDay || "",
+    textColor: calendarTextColor.toString(),
+    borderColor: calendarBorderColor.toString(),
+    getEventStyle: (event: IEvent) =>
+      eventPropsGetter(event, isEventSelectable, eventDefaultBackgroundColor, calendarBorderColor).style,
+    getDayStyle: (date: Date, resourceId?: string) => _dayPropsGetter(date, resourceId).style || {},
+  });
+
+  const _printCalendar = () => {
+    const range = CalendarUtils.getCurrentRange(calendarDate, calendarView, calendarCulture);
+    CalendarUtils.printCalendar(
+      CalendarUtils.getEventsInRange(visibleEvents, range.start, range.end),
+      range,
+      _getPrintOptions(range)
+    );
+  };
+
+  // Creates a PDF of the print layout for the current range
+  const _exportPdf = async (download: boolean) => {
+    const range = CalendarUtils.getCurrentRange(calendarDate, calendarView, calendarCulture);
+    try {
+      const pdf = await CalendarUtils.createCalendarPdf(
+        CalendarUtils.getEventsInRange(visibleEvents, range.start, range.end),
+        range,
+        _getPrintOptions(range)
+      );
+      if (download) {
+        pdf.save("calendar.pdf");
+      }
+      props.onPdfExported(CalendarUtils.getPdfBase64(pdf));
+    } catch (e) {
+      // The output is cleared so the export trigger is reset and the PDF can be requested again
+      props.onPdfExported("");
+      props.pcfContext.navigation.openErrorDialog({ message: (e as Error).message });
+    }
+  };
+
+  // Canvas apps request a PDF through the trigger property
+  React.useEffect(() => {
+    if (props.exportPdfRequest) {
+      _exportPdf(false);
+    }
+  }, [props.exportPdfRequest]);
+
+  const toolbarActions: IToolbarAction[] = [];
+  if (calendarShowExport) {
+    toolbarActions.push({
+      key: "exportIcs",
+      text: calendarMessages.exportIcs || "",
+      onClick: () => _exportIcs(true),
+    });
+  }
+  if (calendarShowPrint) {
+    toolbarActions.push({
+      key: "print",
+      text: calendarMessages.print || "",
+      onClick: _printCalendar,
+    });
+    toolbarActions.push({
+      key: "exportPdf",
+      text: calendarMessages.exportPdf || "",
+      onClick: () => _exportPdf(true),
+    });
+  }
+
+  const _toggleCategory = (key: string) =>
+    setHiddenCategories((hidden) =>
+      hidden.includes(key) ? hidden.filter((k) => k !== key) : [...hidden, key]
+    );
+
+  const eventColorCategories = calendarData.keys?.eventColorCategories || [];
+  const legend = eventColorCategories.length > 0 ? (
+    <CalendarLegend
+      title={calendarMessages.legend || ""}
+      categories={eventColorCategories}
+      hiddenCategories={hiddenCategories}
+      defaultColor={eventDefaultBackgroundColor.toString()}
+      onToggleCategory={_toggleCategory}
+    />
+  ) : undefined;
+
+  const filterBar = calendarShowFilter ? (
+    <CalendarFilterBar
+      messages={calendarMessages}
+      filter={eventFilter}
+      resources={calendarData.resources}
+      categories={CalendarUtils.getFilterCategories(calendarData.events, eventColorCategories)}
+      defaultColor={eventDefaultBackgroundColor.toString()}
+      onChange={setEventFilter}
+    />
+  ) : undefined;
+
   // Adapter functions to match react-big-calendar signatures
+  const _tooltipAccessor = (event: IEvent) =>
+    tooltipAccessor(event, calendarMessages.conflictWarning);
+
   const _eventPropsGetter = (event: IEvent, start: Date, end: Date, isSelected: boolean) =>
-    eventPropsGetter(event, isEventSelectable, eventDefaultBackgroundColor, calendarBorderColor);
+    eventPropsGetter(
+      event,
+      isEventSelectable,
+      eventDefaultBackgroundColor,
+      calendarBorderColor,
+      selectedRecordIds.length > 1 && !!event.id && selectedRecordIds.includes(event.id)
+    );
 
-  const _dayPropsGetter = (date: Date, _resourceId?: string | number) =>
-    dayPropsGetter(date, calendarTodayBackgroundColor, weekendColor, moment);
+  const _dayPropsGetter = (date: Date, resourceId?: string | number) =>
+    dayPropsGetter(
+      date,
+      calendarTodayBackgroundColor,
+      weekendColor,
+      moment,
+      _getNow(),
+      nonWorkingColor,
+      CalendarUtils.isWorkingDay(getWorkingHours(resourceId), date),
+      holidayColor,
+      CalendarUtils.isHolidayDay(holidayEvents, date),
+      isMonthView
+        ? CalendarUtils.getHeatmapColor(heatmapSettings, dayTotals.get(CalendarUtils.getDayKey(date)))
+        : undefined
+    );
 
 
+  // Labels read by screen readers for the events and the slots using the calendar language
+  const _getEventLabel = (event: IEvent) =>
+    CalendarUtils.getEventAriaLabel(event, calendarMessages, localizer, calendarCulture, calendarData.resources);
+
+  const _getSlotLabel = (date: Date, isDay: boolean, resourceId?: string | number | null) =>
+    CalendarUtils.getSlotAriaLabel(
+      date,
+      isDay,
+      calendarMessages,
+      localizer,
+      calendarCulture,
+      calendarData.resources,
+      resourceId
+    );
+
   // Use agendaEventRenderer from renderers
   const agendaEvent: React.ComponentType<EventProps<IEvent>> = (props) =>
     agendaEventRenderer(props, isEventSelectable, eventDefaultBackgroundColor);
@@ -178,11 +818,54 @@ export const CalendarControl: React.FC<IProps> = (props) => {
     return timeGutterHeaderRenderer(ref);
   };
 
-  return !calendarData?.resources ? (
-    <Calendar
+  const popover =
+    quickPopover?.type === "create" ? (
+      <QuickCreatePopover
+        messages={calendarMessages}
+        position={quickPopover.position}
+        start={quickPopover.start}
+        end={quickPopover.end}
+        allDay={quickPopover.allDay}
+        resources={calendarData.resources}
+        resourceId={quickPopover.resourceId}
+        onSave={_saveQuickCreate}
+        onDismiss={_dismissQuickPopover}
+      />
+    ) : quickPopover?.type === "view" ? (
+      <QuickViewPopover
+        messages={calendarMessages}
+        position={quickPopover.position}
+        event={quickPopover.event}
+        resources={calendarData.resources}
+        onOpenRecord={_openRecord}
+        onDismiss={_dismissQuickPopover}
+      />
+    ) : quickPopover?.type === "menu" ? (
+      <EventContextMenu
+        messages={calendarMessages}
+        position={quickPopover.position}
+        event={quickPopover.event}
+        onCopy={_copyEvent}
+        onDuplicate={(event) => setQuickPopover({ ...quickPopover, type: "duplicate", event: event })}
+        onDismiss={_dismissQuickPopover}
+      />
+    ) : quickPopover?.type === "duplicate" ? (
+      <DuplicatePopover
+        messages={calendarMessages}
+        position={quickPopover.position}
+        event={quickPopover.event}
+        resources={calendarData.resources}
+        onSave={_duplicateEvent}
+        onDismiss={_dismissQuickPopover}
+      />
+    ) : null;
+
+  const calendar = !calendarData?.resources ? (
+    <DnDCalendar
       selectable={calendarSelectable}
       popup={calendarPopup}
       localizer={localizer}
+      getNow={_getNow}
       date={calendarDate}
       culture={calendarCulture}
       rtl={calendarRtl}
@@ -196,32 +879,46 @@ export const CalendarControl: React.FC<IProps> = (props) => {
       step={step} // Controls the interval in minutes for each time slot
       timeslots={timeslots} // Number of slots per hour
       dayLayoutAlgorithm={dayLayoutAlgorithm}
-      events={calendarData.events}
+      events={displayedEvents}
+      backgroundEvents={backgroundEvents}
       onSelectEvent={_handleEventSelected}
       onKeyPressEvent={_handleEventKeyPress}
+      onEventDrop={_handleEventMove}
+      onEventResize={_handleEventMove}
+      draggableAccessor={_draggableAccessor}
+      resizable={isEventDraggable}
+      resizableAccessor={_draggableAccessor}
       onSelectSlot={_handleSlotSelect}
+      onSelecting={_handleSelecting}
       onNavigate={_handleNavigate}
       onView={_handleOnView}
+      onDrillDown={_handleDrillDown}
       ref={calendarRef}
       className={`rbc-view-${calendarView}`}
       eventPropGetter={_eventPropsGetter}
       dayPropGetter={_dayPropsGetter}
-      tooltipAccessor={tooltipAccessor}
+      tooltipAccessor={_tooltipAccessor}
       components={{
+        event: eventRenderer,
         agenda: {
           event: agendaEvent,
         },
         timeGutterHeader: timeGutterHeader,
-        timeSlotWrapper: (props) => timeSlotWrapperRenderer({ ...props, timeslots }),
+        toolbar: CalendarToolbar,
+        timeSlotWrapper: TimeSlotWrapper,
+        timeGutterWrapper: TimeGutterWrapper,
+        dateCellWrapper: DateCellWrapper,
       }}
     />
   ) : (
-    <Calendar
+    <DnDCalendar
       selectable={calendarSelectable}
       popup={calendarPopup}
       localizer={localizer}
+      getNow={_getNow}
       date={calendarDate}
       culture={calendarCulture}
+      rtl={calendarRtl}
       messages={calendarMessages}
       defaultView={calendarView}
       view={calendarView}
@@ -232,27 +929,72 @@ export const CalendarControl: React.FC<IProps> = (props) => {
       step={step} // Controls the interval in minutes for each time slot
       timeslots={timeslots} // Number of slots per hour
       dayLayoutAlgorithm={dayLayoutAlgorithm}
-      events={calendarData.events}
+      events={displayedEvents}
+      backgroundEvents={backgroundEvents}
       onSelectEvent={_handleEventSelected}
       onKeyPressEvent={_handleEventKeyPress}
+      onEventDrop={_handleEventMove}
+      onEventResize={_handleEventMove}
+      draggableAccessor={_draggableAccessor}
+      resizable={isEventDraggable}
+      resizableAccessor={_draggableAccessor}
       onSelectSlot={_handleSlotSelect}
+      onSelecting={_handleSelecting}
       onNavigate={_handleNavigate}
       onView={_handleOnView}
+      onDrillDown={_handleDrillDown}
       resources={calendarData.resources}
       resourceAccessor="resource"
       ref={calendarRef}
       className={`rbc-view-${calendarView}`}
       eventPropGetter={_eventPropsGetter}
       dayPropGetter={_dayPropsGetter}
-      tooltipAccessor={tooltipAccessor}
+      tooltipAccessor={_tooltipAccessor}
       components={{
+        event: eventRenderer,
         agenda: {
           event: agendaEvent,
         },
         resourceHeader: resourceHeader,
         timeGutterHeader: timeGutterHeader,
-        timeSlotWrapper: (props) => timeSlotWrapperRenderer({ ...props, timeslots }),
+        toolbar: CalendarToolbar,
+        timeSlotWrapper: TimeSlotWrapper,
+        timeGutterWrapper: TimeGutterWrapper,
+        dateCellWrapper: DateCellWrapper,
       }}
     />
   );
+
+  // Use CalendarToolbar to add our actions, the filter bar and the legend to the toolbar
+  // and the event context menu and labels to the events, the slot wrappers use the working hours and
+  // keyboard focus, pasting and the keyboard navigation are handled for the whole calendar
+  return (
+    <CalendarToolbarContext.Provider
+      value={{ actions: toolbarActions, legend: legend, filterBar: filterBar }}
+    >
+      <CalendarSlotContext.Provider
+        value={{
+          timeslots: timeslots,
+          nonWorkingColor: nonWorkingColor,
+          isWorkingSlot: _isWorkingSlot,
+          isMonthView: isMonthView,
+          focusedSlotKey: focusedSlotKey,
+          getSlotLabel: accessibilityMode ? _getSlotLabel : undefined,
+        }}
+      >
+        <EventContentContext.Provider
+          value={{
+            onContextMenu: _showContextMenu,
+            getAriaLabel: _getEventLabel,
+            focusable: accessibilityMode,
+          }}
+        >
+          <div className="rbc-calendar-container" ref={containerRef} onKeyDown={_handleKeyDown}>
+            {calendar}
+            {popover}
+          </div>
+        </EventContentContext.Provider>
+      </CalendarSlotContext.Provider>
+    </CalendarToolbarContext.Provider>
+  );
 };
\ No newline at end of file
@@ -5,11 +5,20 @@ import { IEvent } from "../types/IEvent";
  * If the event has a description, the tooltip will be:
  *   Title\nDescription
  * Otherwise, just the title.
+ * When there is an Event Template the text of the template is used instead.
+ * Events that overlap with other events on the same resource get an additional line
+ * listing the conflicting events.
  */
-export function tooltipAccessor(event: IEvent): string {
-  if (event.description) {
+export function tooltipAccessor(event: IEvent, conflictMessage?: string): string {
+  let tooltip = `${event.title}`;
+  if (event.templateText) {
+    tooltip = event.templateText;
+  } else if (event.description) {
     // Use a line break for HTML tooltips, or \n for plain text
-    return `${event.title}\n${event.description}`;
+    tooltip = `${event.title}\n${event.description}`;
   }
-  return `${event.title}`;
+  if (event.conflictsWith && event.conflictsWith.length > 0) {
+    tooltip += `\n${conflictMessage || ""} ${event.conflictsWith.join(", ")}`;
+  }
+  return tooltip;
 }
@@ -0,0 +1,103 @@
+import * as React from "react";
+import { EventCategory, EventFilter, Resource } from "../types";
+import { ICalendarMessages } from "./Translations";
+import { isFilterActive, EMPTY_EVENT_FILTER } from "../utils/FilterHelpers";
+
+interface FilterOption {
+  key: string;
+  label: string;
+  color?: string;
+}
+
+interface FilterOptionsProps {
+  label: string;
+  options: FilterOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+// Dropdown list of checkboxes used to pick multiple resources or categories
+function FilterOptions(props: FilterOptionsProps) {
+  const _toggle = (key: string) =>
+    props.onChange(
+      props.selected.includes(key)
+        ? props.selected.filter((k) => k !== key)
+        : [...props.selected, key]
+    );
+
+  return (
+    <details className="rbc-filter-options">
+      <summary>
+        {props.label}
+        {props.selected.length > 0 && ` (${props.selected.length})`}
+      </summary>
+      <div className="rbc-filter-options-list">
+        {props.options.map((option) => (
+          <label key={option.key} className="rbc-filter-option">
+            <input
+              type="checkbox"
+              checked={props.selected.includes(option.key)}
+              onChange={() => _toggle(option.key)}
+            />
+            {option.color && (
+              <span className="rbc-legend-color" style={{ backgroundColor: option.color }} />
+            )}
+            {option.label}
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+}
+
+export interface CalendarFilterBarProps {
+  messages: ICalendarMessages;
+  filter: EventFilter;
+  resources?: Resource[];
+  categories: EventCategory[];
+  defaultColor: string;
+  onChange: (filter: EventFilter) => void;
+}
+
+// Searches the event title and description and filters the events by resource and category
+export function CalendarFilterBar(props: CalendarFilterBarProps) {
+  const { filter, messages } = props;
+
+  return (
+    <div className="rbc-filter-bar" role="search">
+      <input
+        type="search"
+        className="rbc-filter-search"
+        placeholder={messages.search}
+        aria-label={messages.search}
+        value={filter.text}
+        onChange={(e) => props.onChange({ ...filter, text: e.target.value })}
+      />
+      {props.resources && props.resources.length > 0 && (
+        <FilterOptions
+          label={messages.resources || ""}
+          options={props.resources.map((r) => ({ key: r.id, label: r.title }))}
+          selected={filter.resourceIds}
+          onChange={(resourceIds) => props.onChange({ ...filter, resourceIds })}
+        />
+      )}
+      {props.categories.length > 0 && (
+        <FilterOptions
+          label={messages.categories || ""}
+          options={props.categories.map((c) => ({
+            key: c.key,
+            label: c.label,
+            color: c.color || props.defaultColor,
+          }))}
+          selected={filter.categories}
+          onChange={(categories) => props.onChange({ ...filter, categories })}
+        />
+      )}
+      {isFilterActive(filter) && (
+        <button type="button" onClick={() => props.onChange(EMPTY_EVENT_FILTER)}>
+          {messages.clearFilter}
+        </button>
+      )}
+    </div>
+  );
+}
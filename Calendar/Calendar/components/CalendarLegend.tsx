@@ -0,0 +1,52 @@
+import * as React from "react";
+import clsx from "clsx";
+import { EventCategory } from "../types";
+
+export interface CalendarLegendProps {
+  title: string;
+  categories: EventCategory[];
+  hiddenCategories: string[];
+  defaultColor: string;
+  onToggleCategory: (key: string) => void;
+}
+
+// Collapsible list of the event colors and their labels, clicking an entry shows or hides its events
+export function CalendarLegend(props: CalendarLegendProps) {
+  const [expanded, setExpanded] = React.useState<boolean>(true);
+
+  return (
+    <div className="rbc-legend">
+      <button
+        type="button"
+        className="rbc-legend-header"
+        aria-expanded={expanded}
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? "▾" : "▸"} {props.title}
+      </button>
+      {expanded && (
+        <ul className="rbc-legend-items">
+          {props.categories.map((category) => {
+            const hidden = props.hiddenCategories.includes(category.key);
+            return (
+              <li key={category.key}>
+                <button
+                  type="button"
+                  className={clsx("rbc-legend-item", { "rbc-legend-item-hidden": hidden })}
+                  aria-pressed={!hidden}
+                  onClick={() => props.onToggleCategory(category.key)}
+                >
+                  <span
+                    className="rbc-legend-color"
+                    style={{ backgroundColor: category.color || props.defaultColor }}
+                  />
+                  {category.label}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import * as React from "react";
+import clsx from "clsx";
+import * as CalendarUtils from "../utils";
+import { timeSlotWrapperRenderer } from "../renderers";
+
+export interface CalendarSlotExtras {
+  timeslots: number;
+  nonWorkingColor?: string;
+  isWorkingSlot: (date: Date, resourceId?: string | number) => boolean;
+  isMonthView: boolean;
+  //only set in the accessibility mode so the slots and days can be focused
+  focusedSlotKey?: string;
+  getSlotLabel?: (date: Date, isDay: boolean, resourceId?: string | number | null) => string;
+}
+
+// The slot wrappers are provided through context so the components passed to react-big-calendar stay
+// the same between renders and the focused slot is not recreated when the calendar renders
+export const CalendarSlotContext = React.createContext<CalendarSlotExtras>({
+  timeslots: CalendarUtils.DEFAULT_TIMESLOTS,
+  isWorkingSlot: () => true,
+  isMonthView: false,
+});
+
+// The time gutter uses the time slot wrapper as well but its slots cannot be selected
+const TimeGutterContext = React.createContext<boolean>(false);
+
+export function TimeGutterWrapper(props: { children?: React.ReactNode }) {
+  return <TimeGutterContext.Provider value={true}>{props.children}</TimeGutterContext.Provider>;
+}
+
+export function TimeSlotWrapper(props: {
+  children?: React.ReactNode;
+  value?: Date;
+  resource?: string | number | null;
+}) {
+  const { timeslots, nonWorkingColor, isWorkingSlot, focusedSlotKey, getSlotLabel } =
+    React.useContext(CalendarSlotContext);
+  const isGutter = React.useContext(TimeGutterContext);
+  return timeSlotWrapperRenderer({
+    ...props,
+    timeslots,
+    nonWorkingColor,
+    isWorkingSlot,
+    focusedSlotKey,
+    getSlotLabel:
+      getSlotLabel && !isGutter
+        ? (date: Date, resourceId?: string | number | null) => getSlotLabel(date, false, resourceId)
+        : undefined,
+  });
+}
+
+// Makes the days in the month view focusable, the wrapper is also used by the all day row of the week view
+export function DateCellWrapper(props: { children?: React.ReactNode; value: Date }) {
+  const { focusedSlotKey, getSlotLabel, isMonthView } = React.useContext(CalendarSlotContext);
+  const child = props.children as React.ReactElement<{ className?: string }>;
+  if (!isMonthView || !getSlotLabel || !React.isValidElement(child)) return <>{props.children}</>;
+
+  const { className, ...attributes } = CalendarUtils.getSlotAttributes(
+    props.value,
+    undefined,
+    focusedSlotKey,
+    getSlotLabel(props.value, true)
+  );
+  return React.cloneElement(child, { ...attributes, className: clsx(child.props.className, className) });
+}
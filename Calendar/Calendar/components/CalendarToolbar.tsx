@@ -0,0 +1,71 @@
+import * as React from "react";
+import clsx from "clsx";
+import { ToolbarProps, View } from "react-big-calendar";
+import { IEvent, Resource } from "../types";
+
+export interface IToolbarAction {
+  key: string;
+  text: string;
+  onClick: () => void;
+}
+
+export interface CalendarToolbarExtras {
+  actions: IToolbarAction[];
+  legend?: React.ReactNode;
+  filterBar?: React.ReactNode;
+}
+
+// The actions, legend and filter bar are provided through context so the toolbar component passed to
+// react-big-calendar stays the same between renders and the filter bar keeps its focus while typing
+export const CalendarToolbarContext = React.createContext<CalendarToolbarExtras>({ actions: [] });
+
+// Renders the same markup as the react-big-calendar toolbar with an additional group for our own actions
+// and the filter bar and legend underneath it
+export function CalendarToolbar(props: ToolbarProps<IEvent, Resource>) {
+  const { actions, legend, filterBar } = React.useContext(CalendarToolbarContext);
+  const messages = props.localizer.messages;
+  const viewNames = props.views as View[];
+
+  return (
+    <>
+      <div className="rbc-toolbar">
+        <span className="rbc-btn-group">
+          <button type="button" onClick={() => props.onNavigate("TODAY")}>
+            {messages.today}
+          </button>
+          <button type="button" onClick={() => props.onNavigate("PREV")}>
+            {messages.previous}
+          </button>
+          <button type="button" onClick={() => props.onNavigate("NEXT")}>
+            {messages.next}
+          </button>
+        </span>
+        <span className="rbc-toolbar-label">{props.label}</span>
+        <span className="rbc-btn-group">
+          {viewNames.length > 1 &&
+            viewNames.map((name) => (
+              <button
+                type="button"
+                key={name}
+                className={clsx({ "rbc-active": props.view === name })}
+                onClick={() => props.onView(name)}
+              >
+                {messages[name]}
+              </button>
+            ))}
+        </span>
+        {actions.length > 0 && (
+          <span className="rbc-btn-group rbc-toolbar-actions">
+            {actions.map((action) => (
+              <button type="button" key={action.key} title={action.text} onClick={action.onClick}>
+                {action.text}
+              </button>
+            ))}
+          </span>
+        )}
+      </div>
+      {filterBar}
+      {legend}
+    </>
+  );
+}
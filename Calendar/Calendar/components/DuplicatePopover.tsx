@@ -0,0 +1,83 @@
+import * as React from "react";
+import * as moment from "moment";
+import { IEvent, PopoverPosition, Resource } from "../types";
+import { ICalendarMessages } from "./Translations";
+import { Popover } from "./Popover";
+
+const DATE_INPUT_FORMAT = "YYYY-MM-DD";
+const DATE_TIME_INPUT_FORMAT = "YYYY-MM-DDTHH:mm";
+
+export interface DuplicatePopoverProps {
+  messages: ICalendarMessages;
+  position: PopoverPosition;
+  event: IEvent;
+  resources?: Resource[];
+  onSave: (event: IEvent, start: Date, resourceId?: string) => Promise<void>;
+  onDismiss: () => void;
+}
+
+// Picks the date and resource a copy of the event is created on, the copy keeps the duration of the event
+export function DuplicatePopover(props: DuplicatePopoverProps) {
+  const { event } = props;
+  const inputFormat = event.allDay ? DATE_INPUT_FORMAT : DATE_TIME_INPUT_FORMAT;
+  const [start, setStart] = React.useState<string>(moment(event.start).format(inputFormat));
+  const [resourceId, setResourceId] = React.useState<string>((event.resource as string) || "");
+  const [saving, setSaving] = React.useState<boolean>(false);
+
+  const startDate = moment(start, inputFormat, true);
+
+  const _handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!startDate.isValid() || saving) return;
+    setSaving(true);
+    try {
+      await props.onSave(event, startDate.toDate(), resourceId || undefined);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Popover
+      title={props.messages.duplicateTo || ""}
+      position={props.position}
+      closeLabel={props.messages.close || ""}
+      onDismiss={props.onDismiss}
+    >
+      <form className="rbc-quick-popover-body" onSubmit={_handleSubmit}>
+        <label className="rbc-quick-popover-field">
+          {props.messages.eventStart}
+          <input
+            type={event.allDay ? "date" : "datetime-local"}
+            value={start}
+            onChange={(e) => setStart(e.target.value)}
+          />
+        </label>
+        {props.resources && props.resources.length > 0 && (
+          <label className="rbc-quick-popover-field">
+            {props.messages.eventResource}
+            <select value={resourceId} onChange={(e) => setResourceId(e.target.value)}>
+              {props.resources.map((resource) => (
+                <option key={resource.id} value={resource.id}>
+                  {resource.title}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <div className="rbc-quick-popover-actions">
+          <button
+            type="submit"
+            className="rbc-quick-popover-primary"
+            disabled={!startDate.isValid() || saving}
+          >
+            {props.messages.duplicate}
+          </button>
+          <button type="button" onClick={props.onDismiss}>
+            {props.messages.cancel}
+          </button>
+        </div>
+      </form>
+    </Popover>
+  );
+}
@@ -0,0 +1,34 @@
+import * as React from "react";
+import { IEvent, PopoverPosition } from "../types";
+import { ICalendarMessages } from "./Translations";
+import { Popover } from "./Popover";
+
+export interface EventContextMenuProps {
+  messages: ICalendarMessages;
+  position: PopoverPosition;
+  event: IEvent;
+  onCopy: (event: IEvent) => void;
+  onDuplicate: (event: IEvent) => void;
+  onDismiss: () => void;
+}
+
+// Menu shown when an event is right clicked to copy it or duplicate it to another date or resource
+export function EventContextMenu(props: EventContextMenuProps) {
+  return (
+    <Popover
+      title={props.event.title?.toString() || ""}
+      position={props.position}
+      closeLabel={props.messages.close || ""}
+      onDismiss={props.onDismiss}
+    >
+      <div className="rbc-quick-popover-menu" role="menu">
+        <button type="button" role="menuitem" onClick={() => props.onCopy(props.event)}>
+          {props.messages.copy}
+        </button>
+        <button type="button" role="menuitem" onClick={() => props.onDuplicate(props.event)}>
+          {props.messages.duplicateTo}
+        </button>
+      </div>
+    </Popover>
+  );
+}
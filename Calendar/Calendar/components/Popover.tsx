@@ -0,0 +1,73 @@
+import * as React from "react";
+import { PopoverPosition } from "../types";
+
+export interface PopoverProps {
+  title: string;
+  position: PopoverPosition;
+  closeLabel: string;
+  onDismiss: () => void;
+  children?: React.ReactNode;
+}
+
+// Dialog shown next to a point on the calendar, closed with escape or by clicking outside of it
+export function Popover(props: PopoverProps) {
+  const popoverRef = React.useRef<HTMLDivElement>(null);
+  const [style, setStyle] = React.useState<React.CSSProperties>({
+    left: props.position.x,
+    top: props.position.y,
+  });
+
+  // keep the popover inside the window
+  React.useLayoutEffect(() => {
+    const popover = popoverRef.current;
+    if (!popover) return;
+    const rect = popover.getBoundingClientRect();
+    setStyle({
+      left: Math.max(0, Math.min(props.position.x, window.innerWidth - rect.width)),
+      top: Math.max(0, Math.min(props.position.y, window.innerHeight - rect.height)),
+    });
+    popover.querySelector<HTMLElement>("input, select, button")?.focus();
+  }, [props.position.x, props.position.y]);
+
+  React.useEffect(() => {
+    const _handleMouseDown = (e: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) {
+        props.onDismiss();
+      }
+    };
+    document.addEventListener("mousedown", _handleMouseDown);
+    return () => document.removeEventListener("mousedown", _handleMouseDown);
+  }, [props.onDismiss]);
+
+  const _handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === "Escape") {
+      e.stopPropagation();
+      props.onDismiss();
+    }
+  };
+
+  return (
+    <div
+      ref={popoverRef}
+      className="rbc-quick-popover"
+      role="dialog"
+      aria-label={props.title}
+      style={style}
+      onKeyDown={_handleKeyDown}
+    >
+      <div className="rbc-quick-popover-header">
+        <span className="rbc-quick-popover-title">{props.title}</span>
+        <button
+          type="button"
+          className="rbc-quick-popover-close"
+          title={props.closeLabel}
+          aria-label={props.closeLabel}
+          onClick={props.onDismiss}
+        >
+          ×
+        </button>
+      </div>
+      {props.children}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import * as React from "react";
+import * as moment from "moment";
+import { PopoverPosition, Resource } from "../types";
+import { ICalendarMessages } from "./Translations";
+import { Popover } from "./Popover";
+
+const DATE_INPUT_FORMAT = "YYYY-MM-DD";
+const DATE_TIME_INPUT_FORMAT = "YYYY-MM-DDTHH:mm";
+
+export interface QuickCreatePopoverProps {
+  messages: ICalendarMessages;
+  position: PopoverPosition;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  resources?: Resource[];
+  resourceId?: string;
+  onSave: (name: string, start: Date, end: Date, resourceId?: string) => Promise<void>;
+  onDismiss: () => void;
+}
+
+// Creates a record for the selected slot without leaving the calendar
+export function QuickCreatePopover(props: QuickCreatePopoverProps) {
+  const inputFormat = props.allDay ? DATE_INPUT_FORMAT : DATE_TIME_INPUT_FORMAT;
+  // all day events end at midnight of the next day but the inputs show the last day of the event
+  const [name, setName] = React.useState<string>("");
+  const [start, setStart] = React.useState<string>(moment(props.start).format(inputFormat));
+  const [end, setEnd] = React.useState<string>(
+    moment(props.end)
+      .subtract(props.allDay ? 1 : 0, "day")
+      .format(inputFormat)
+  );
+  const [resourceId, setResourceId] = React.useState<string>(props.resourceId || "");
+  const [saving, setSaving] = React.useState<boolean>(false);
+
+  const startDate = moment(start, inputFormat, true);
+  const endDate = moment(end, inputFormat, true).add(props.allDay ? 1 : 0, "day");
+  const isValid =
+    name.trim() !== "" && startDate.isValid() && endDate.isValid() && endDate.isAfter(startDate);
+
+  const _handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!isValid || saving) return;
+    setSaving(true);
+    try {
+      await props.onSave(name.trim(), startDate.toDate(), endDate.toDate(), resourceId || undefined);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputType = props.allDay ? "date" : "datetime-local";
+
+  return (
+    <Popover
+      title={props.messages.newEvent || ""}
+      position={props.position}
+      closeLabel={props.messages.close || ""}
+      onDismiss={props.onDismiss}
+    >
+      <form className="rbc-quick-popover-body" onSubmit={_handleSubmit}>
+        <label className="rbc-quick-popover-field">
+          {props.messages.eventName}
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} />
+        </label>
+        <label className="rbc-quick-popover-field">
+          {props.messages.eventStart}
+          <input type={inputType} value={start} onChange={(e) => setStart(e.target.value)} />
+        </label>
+        <label className="rbc-quick-popover-field">
+          {props.messages.eventEnd}
+          <input type={inputType} value={end} onChange={(e) => setEnd(e.target.value)} />
+        </label>
+        {props.resources && props.resources.length > 0 && (
+          <label className="rbc-quick-popover-field">
+            {props.messages.eventResource}
+            <select value={resourceId} onChange={(e) => setResourceId(e.target.value)}>
+              <option value="" />
+              {props.resources.map((resource) => (
+                <option key={resource.id} value={resource.id}>
+                  {resource.title}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <div className="rbc-quick-popover-actions">
+          <button type="submit" className="rbc-quick-popover-primary" disabled={!isValid || saving}>
+            {props.messages.save}
+          </button>
+          <button type="button" onClick={props.onDismiss}>
+            {props.messages.cancel}
+          </button>
+        </div>
+      </form>
+    </Popover>
+  );
+}
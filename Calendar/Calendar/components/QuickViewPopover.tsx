@@ -0,0 +1,62 @@
+import * as React from "react";
+import * as moment from "moment";
+import { IEvent, PopoverPosition, Resource } from "../types";
+import { ICalendarMessages } from "./Translations";
+import { Popover } from "./Popover";
+
+export interface QuickViewPopoverProps {
+  messages: ICalendarMessages;
+  position: PopoverPosition;
+  event: IEvent;
+  resources?: Resource[];
+  onOpenRecord: (event: IEvent) => void;
+  onDismiss: () => void;
+}
+
+// Read only summary of an event with a button to open its form
+export function QuickViewPopover(props: QuickViewPopoverProps) {
+  const { event } = props;
+  const format = event.allDay ? "L" : "L LT";
+  // all day events end at midnight of the next day so show the last day of the event
+  const end = event.allDay ? moment(event.end).subtract(1, "day") : moment(event.end);
+  const resource = props.resources?.find((r) => r.id === event.resource);
+
+  return (
+    <Popover
+      title={event.title?.toString() || ""}
+      position={props.position}
+      closeLabel={props.messages.close || ""}
+      onDismiss={props.onDismiss}
+    >
+      <div className="rbc-quick-popover-body">
+        <dl className="rbc-quick-popover-details">
+          <dt>{props.messages.eventStart}</dt>
+          <dd>{moment(event.start).format(format)}</dd>
+          <dt>{props.messages.eventEnd}</dt>
+          <dd>{end.format(format)}</dd>
+          {resource && (
+            <>
+              <dt>{props.messages.eventResource}</dt>
+              <dd>{resource.title}</dd>
+            </>
+          )}
+        </dl>
+        {event.description && (
+          <p className="rbc-quick-popover-description">{event.description}</p>
+        )}
+        <div className="rbc-quick-popover-actions">
+          <button
+            type="button"
+            className="rbc-quick-popover-primary"
+            onClick={() => props.onOpenRecord(event)}
+          >
+            {props.messages.openRecord}
+          </button>
+          <button type="button" onClick={props.onDismiss}>
+            {props.messages.close}
+          </button>
+        </div>
+      </div>
+    </Popover>
+  );
+}
@@ -0,0 +1,283 @@
+import * as React from "react";
+import { useMemo, useRef } from "react";
+import * as PropTypes from "prop-types";
+import clsx from "clsx";
+import { DateLocalizer, Navigate, NavigateAction, SlotInfo } from "react-big-calendar";
+import { IEvent, Resource } from "../types";
+
+const ROW_HEIGHT = 28;
+const MINUTES_PER_DAY = 1440;
+
+interface TimelineProps {
+  style?: React.CSSProperties;
+  className?: string;
+}
+
+export interface TimelineViewProps {
+  date: Date;
+  localizer: DateLocalizer;
+  culture?: string;
+  events: IEvent[];
+  resources?: Resource[];
+  min?: Date;
+  max?: Date;
+  step?: number;
+  selectable?: boolean | "ignoreEvents";
+  selected?: IEvent;
+  accessors: {
+    start: (event: IEvent) => Date;
+    end: (event: IEvent) => Date;
+    title: (event: IEvent) => React.ReactNode;
+    tooltip: (event: IEvent) => string;
+    resource: (event: IEvent) => string | undefined;
+    resourceId: (resource: Resource) => string;
+    resourceTitle: (resource: Resource) => React.ReactNode;
+  };
+  getters: {
+    eventProp: (event: IEvent, start: Date, end: Date, isSelected: boolean) => TimelineProps;
+    dayProp: (date: Date, resourceId?: string) => TimelineProps;
+  };
+  onSelectEvent: (event: IEvent, e: React.SyntheticEvent) => void;
+  onKeyPressEvent: (event: IEvent, e: React.SyntheticEvent) => void;
+  onSelectSlot: (slotInfo: SlotInfo) => void;
+  components?: {
+    event?: React.ComponentType<{ event: IEvent; title?: React.ReactNode }>;
+  };
+  [key: string]: unknown; // Allow additional props
+}
+
+interface TimelineLane {
+  resourceId?: string;
+  title: React.ReactNode;
+  rows: { event: IEvent; start: Date; end: Date; row: number }[];
+  rowCount: number;
+}
+
+// Displays the resources as rows with time across the horizontal axis
+export default function Timeline({
+  date,
+  localizer,
+  culture,
+  events,
+  resources,
+  min,
+  max,
+  step,
+  selectable,
+  selected,
+  accessors,
+  getters,
+  onSelectEvent,
+  onKeyPressEvent,
+  onSelectSlot,
+  components,
+}: TimelineViewProps) {
+  const EventComponent = components?.event;
+  const days = useMemo(() => Timeline.range(date, { localizer }), [date, localizer]);
+  const rangeStart = days[0];
+  const rangeEnd = localizer.add(days[days.length - 1], 1, "day");
+  const selectionStart = useRef<{ resourceId?: string; position: number } | null>(null);
+
+  // only the hours between the min and max are shown for each day
+  const minMinutes = min ? min.getHours() * 60 + min.getMinutes() : 0;
+  const maxMinutes = max
+    ? Math.min(MINUTES_PER_DAY, Math.ceil(max.getHours() * 60 + max.getMinutes() + max.getSeconds() / 60))
+    : MINUTES_PER_DAY;
+  const visibleMinutes = Math.max(maxMinutes - minMinutes, 1);
+
+  // converts a date into its horizontal position from 0 to 1
+  const getPosition = (value: Date) => {
+    const day = new Date(value.getFullYear(), value.getMonth(), value.getDate());
+    const dayIndex = Math.round((day.getTime() - rangeStart.getTime()) / 86400000);
+    if (dayIndex < 0) return 0;
+    if (dayIndex >= days.length) return 1;
+    const minutes = Math.min(
+      Math.max(value.getHours() * 60 + value.getMinutes(), minMinutes),
+      maxMinutes
+    );
+    return (dayIndex + (minutes - minMinutes) / visibleMinutes) / days.length;
+  };
+
+  // converts a horizontal position back into a date rounded to the calendar step
+  const getDate = (position: number, roundUp: boolean) => {
+    const dayPosition = Math.min(Math.max(position, 0), 1) * days.length;
+    const dayIndex = Math.min(Math.floor(dayPosition), days.length - 1);
+    const slotMinutes = step || 30;
+    const minutes = minMinutes + (dayPosition - dayIndex) * visibleMinutes;
+    const rounded = (roundUp ? Math.ceil(minutes / slotMinutes) : Math.floor(minutes / slotMinutes)) * slotMinutes;
+    const day = days[dayIndex];
+    return new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, Math.min(rounded, maxMinutes));
+  };
+
+  const lanes = useMemo(() => {
+    const rangeEvents = events
+      .map((event) => ({ event, start: accessors.start(event), end: accessors.end(event) }))
+      .filter((e) => e.start && e.end && e.start < rangeEnd && e.end > rangeStart)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    const buildLane = (resourceId: string | undefined, title: React.ReactNode): TimelineLane => {
+      const rowEnds: Date[] = [];
+      const rows = rangeEvents
+        .filter((e) => resourceId === undefined || accessors.resource(e.event) === resourceId)
+        .map((e) => {
+          // overlapping events are stacked on to their own row
+          let row = rowEnds.findIndex((rowEnd) => rowEnd <= e.start);
+          if (row === -1) {
+            row = rowEnds.length;
+          }
+          rowEnds[row] = e.end;
+          return { ...e, row };
+        });
+      return { resourceId, title, rows, rowCount: Math.max(rowEnds.length, 1) };
+    };
+
+    return resources && resources.length > 0
+      ? resources.map((r) => buildLane(accessors.resourceId(r), accessors.resourceTitle(r)))
+      : [buildLane(undefined, "")];
+  }, [events, resources, days]);
+
+  const getLanePosition = (e: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    return (e.clientX - bounds.left) / bounds.width;
+  };
+
+  const _handleMouseDown = (lane: TimelineLane) => (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!selectable || e.button !== 0) return;
+    selectionStart.current = { resourceId: lane.resourceId, position: getLanePosition(e) };
+  };
+
+  const _handleMouseUp = (lane: TimelineLane) => (e: React.MouseEvent<HTMLDivElement>) => {
+    const selection = selectionStart.current;
+    selectionStart.current = null;
+    if (!selection || selection.resourceId !== lane.resourceId) return;
+
+    const position = getLanePosition(e);
+    const start = getDate(Math.min(selection.position, position), false);
+    let end = getDate(Math.max(selection.position, position), true);
+    const isClick = end.getTime() - start.getTime() <= (step || 30) * 60000;
+    if (isClick) {
+      end = localizer.add(start, step || 30, "minutes");
+    }
+
+    onSelectSlot({
+      start: start,
+      end: end,
+      slots: [start, end],
+      action: isClick ? "click" : "select",
+      resourceId: lane.resourceId,
+    });
+  };
+
+  return (
+    <div className="rbc-timeline-view">
+      <div className="rbc-timeline-header">
+        <div className="rbc-timeline-resource-header" />
+        <div className="rbc-timeline-days">
+          {days.map((day) => {
+            const dayProps = getters.dayProp(day);
+            return (
+              <div
+                key={day.getTime()}
+                className={clsx("rbc-timeline-day-header", dayProps.className)}
+                style={dayProps.style}
+              >
+                {localizer.format(day, "dayFormat", culture)}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      <div className="rbc-timeline-body">
+        {lanes.map((lane) => (
+          <div className="rbc-timeline-row" key={lane.resourceId ?? ""}>
+            <div className="rbc-timeline-resource">{lane.title}</div>
+            <div
+              className="rbc-timeline-lane"
+              style={{ height: lane.rowCount * ROW_HEIGHT + 4 }}
+              onMouseDown={_handleMouseDown(lane)}
+              onMouseUp={_handleMouseUp(lane)}
+            >
+              {days.map((day) => {
+                const dayProps = getters.dayProp(day, lane.resourceId);
+                return (
+                  <div
+                    key={day.getTime()}
+                    className={clsx("rbc-timeline-day", dayProps.className)}
+                    style={dayProps.style}
+                  />
+                );
+              })}
+              {lane.rows.map(({ event, start, end, row }, index) => {
+                const isSelected = selected === event;
+                const eventProps = getters.eventProp(event, start, end, isSelected);
+                const left = getPosition(start);
+                const width = Math.max(getPosition(end) - left, 0.005);
+                return (
+                  <div
+                    key={`${event.id}-${index}`}
+                    tabIndex={0}
+                    title={accessors.tooltip(event)}
+                    className={clsx("rbc-event", "rbc-timeline-event", eventProps.className, {
+                      "rbc-selected": isSelected,
+                    })}
+                    style={{
+                      ...eventProps.style,
+                      left: `${left * 100}%`,
+                      width: `${width * 100}%`,
+                      top: row * ROW_HEIGHT + 2,
+                      height: ROW_HEIGHT - 4,
+                    }}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onMouseUp={(e) => e.stopPropagation()}
+                    onClick={(e) => onSelectEvent(event, e)}
+                    onKeyDown={(e) => onKeyPressEvent(event, e)}
+                  >
+                    <div className="rbc-event-content">
+                      {EventComponent ? (
+                        <EventComponent event={event} title={accessors.title(event)} />
+                      ) : (
+                        accessors.title(event)
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+Timeline.propTypes = {
+  date: PropTypes.instanceOf(Date).isRequired,
+  localizer: PropTypes.object,
+};
+
+Timeline.range = (date: Date, { localizer }: { localizer: DateLocalizer }): Date[] => {
+  const start = localizer.startOf(date, "day");
+  return Array.from({ length: Timeline.days }, (_, i) => localizer.add(start, i, "day"));
+};
+
+Timeline.days = 7;
+
+Timeline.navigate = (
+  date: Date,
+  action: NavigateAction,
+  { localizer }: { localizer: DateLocalizer }
+): Date => {
+  switch (action) {
+    case Navigate.PREVIOUS:
+      return localizer.add(date, -Timeline.days, "day");
+    case Navigate.NEXT:
+      return localizer.add(date, Timeline.days, "day");
+    default:
+      return date;
+  }
+};
+
+Timeline.title = (date: Date, { localizer }: { localizer: DateLocalizer }): string => {
+  const range = Timeline.range(date, { localizer });
+  return localizer.format({ start: range[0], end: range[range.length - 1] }, "dayRangeHeaderFormat");
+};
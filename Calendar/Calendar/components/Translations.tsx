@@ -1,6 +1,34 @@
 import { Messages } from "react-big-calendar";
 
-export default function GetMessages(lang: string): Messages {
+//messages used by the control in addition to the react-big-calendar messages
+export interface ICalendarMessages extends Messages {
+  exportIcs?: string;
+  legend?: string;
+  timeline?: string;
+  conflictWarning?: string;
+  year?: string;
+  newEvent?: string;
+  eventName?: string;
+  eventStart?: string;
+  eventEnd?: string;
+  eventResource?: string;
+  save?: string;
+  cancel?: string;
+  openRecord?: string;
+  close?: string;
+  print?: string;
+  exportPdf?: string;
+  search?: string;
+  resources?: string;
+  categories?: string;
+  clearFilter?: string;
+  daySummary?: (count: number, hours: number) => string;
+  copy?: string;
+  duplicateTo?: string;
+  duplicate?: string;
+}
+
+export default function GetMessages(lang: string): ICalendarMessages {
   //check to see if full localized language (en-US) was sent in.
   lang = lang.indexOf("-") === -1 ? lang : lang.substring(0, lang.indexOf("-"));
 
@@ -23,6 +51,30 @@ export default function GetMessages(lang: string): Messages {
         agenda: "ordre du jour",
         noEventsInRange: `Il n'y a aucun événement dans cette gamme.`,
         showMore: (total) => `+${total} événement(s) supplémentaire(s)`,
+        exportIcs: "Exporter (.ics)",
+        legend: "Légende",
+        timeline: "chronologie",
+        conflictWarning: "Chevauche :",
+        year: "année",
+        newEvent: "Nouvel événement",
+        eventName: "Nom",
+        eventStart: "Début",
+        eventEnd: "Fin",
+        eventResource: "Ressource",
+        save: "Enregistrer",
+        cancel: "Annuler",
+        openRecord: "Ouvrir l’enregistrement",
+        close: "Fermer",
+        print: "Imprimer",
+        exportPdf: "Exporter (.pdf)",
+        search: "Rechercher",
+        resources: "Ressources",
+        categories: "Catégories",
+        clearFilter: "Effacer les filtres",
+        daySummary: (count, hours) => `${count} événements · ${hours} h`,
+        copy: "Copier",
+        duplicateTo: "Dupliquer vers…",
+        duplicate: "Dupliquer",
       };
     case "de":
       return {
@@ -42,6 +94,30 @@ export default function GetMessages(lang: string): Messages {
         agenda: "Agenda",
         noEventsInRange: "Es gibt keine Ereignisse in diesem Bereich.",
         showMore: (total) => `Weitere +${total}`,
+        exportIcs: "Exportieren (.ics)",
+        legend: "Legende",
+        timeline: "Zeitachse",
+        conflictWarning: "Überschneidet sich mit:",
+        year: "Jahr",
+        newEvent: "Neuer Termin",
+        eventName: "Name",
+        eventStart: "Beginn",
+        eventEnd: "Ende",
+        eventResource: "Ressource",
+        save: "Speichern",
+        cancel: "Abbrechen",
+        openRecord: "Datensatz öffnen",
+        close: "Schließen",
+        print: "Drucken",
+        exportPdf: "Exportieren (.pdf)",
+        search: "Suchen",
+        resources: "Ressourcen",
+        categories: "Kategorien",
+        clearFilter: "Filter löschen",
+        daySummary: (count, hours) => `${count} Termine · ${hours} Std.`,
+        copy: "Kopieren",
+        duplicateTo: "Duplizieren nach…",
+        duplicate: "Duplizieren",
       };
     case "es":
       return {
@@ -62,6 +138,30 @@ export default function GetMessages(lang: string): Messages {
         noEventsInRange:
           "No hay elementos programados en el intervalo de fechas.",
         showMore: (total) => `+${total} más`,
+        exportIcs: "Exportar (.ics)",
+        legend: "Leyenda",
+        timeline: "Cronología",
+        conflictWarning: "Se superpone con:",
+        year: "Año",
+        newEvent: "Nuevo evento",
+        eventName: "Nombre",
+        eventStart: "Inicio",
+        eventEnd: "Fin",
+        eventResource: "Recurso",
+        save: "Guardar",
+        cancel: "Cancelar",
+        openRecord: "Abrir registro",
+        close: "Cerrar",
+        print: "Imprimir",
+        exportPdf: "Exportar (.pdf)",
+        search: "Buscar",
+        resources: "Recursos",
+        categories: "Categorías",
+        clearFilter: "Borrar filtros",
+        daySummary: (count, hours) => `${count} eventos · ${hours} h`,
+        copy: "Copiar",
+        duplicateTo: "Duplicar en…",
+        duplicate: "Duplicar",
       };
     case "it":
       return {
@@ -81,6 +181,30 @@ export default function GetMessages(lang: string): Messages {
         agenda: "Calendario",
         noEventsInRange: "Non ci sono eventi in queste date.",
         showMore: (total) => `+${total} altri`,
+        exportIcs: "Esporta (.ics)",
+        legend: "Legenda",
+        timeline: "Sequenza temporale",
+        conflictWarning: "Si sovrappone a:",
+        year: "Anno",
+        newEvent: "Nuovo evento",
+        eventName: "Nome",
+        eventStart: "Inizio",
+        eventEnd: "Fine",
+        eventResource: "Risorsa",
+        save: "Salva",
+        cancel: "Annulla",
+        openRecord: "Apri record",
+        close: "Chiudi",
+        print: "Stampa",
+        exportPdf: "Esporta (.pdf)",
+        search: "Cerca",
+        resources: "Risorse",
+        categories: "Categorie",
+        clearFilter: "Cancella filtri",
+        daySummary: (count, hours) => `${count} eventi · ${hours} h`,
+        copy: "Copia",
+        duplicateTo: "Duplica in…",
+        duplicate: "Duplica",
       };
     case "ru":
       return {
@@ -100,6 +224,30 @@ export default function GetMessages(lang: string): Messages {
         agenda: "Повестка дня",
         noEventsInRange: "В этом диапазоне нет событий.",
         showMore: (total) => `Еще +${total} события`,
+        exportIcs: "Экспорт (.ics)",
+        legend: "Легенда",
+        timeline: "Временная шкала",
+        conflictWarning: "Пересекается с:",
+        year: "Год",
+        newEvent: "Новое событие",
+        eventName: "Название",
+        eventStart: "Начало",
+        eventEnd: "Окончание",
+        eventResource: "Ресурс",
+        save: "Сохранить",
+        cancel: "Отмена",
+        openRecord: "Открыть запись",
+        close: "Закрыть",
+        print: "Печать",
+        exportPdf: "Экспорт (.pdf)",
+        search: "Поиск",
+        resources: "Ресурсы",
+        categories: "Категории",
+        clearFilter: "Сбросить фильтры",
+        daySummary: (count, hours) => `${count} событий · ${hours} ч`,
+        copy: "Копировать",
+        duplicateTo: "Дублировать в…",
+        duplicate: "Дублировать",
       };
     case "zh":
       return {
@@ -119,6 +267,30 @@ export default function GetMessages(lang: string): Messages {
         agenda: "议程",
         noEventsInRange: "该范围内没有事件。",
         showMore: (total) => `+${total} 更多`,
+        exportIcs: "导出 (.ics)",
+        legend: "图例",
+        timeline: "时间线",
+        conflictWarning: "冲突：",
+        year: "年",
+        newEvent: "新建事件",
+        eventName: "名称",
+        eventStart: "开始",
+        eventEnd: "结束",
+        eventResource: "资源",
+        save: "保存",
+        cancel: "取消",
+        openRecord: "打开记录",
+        close: "关闭",
+        print: "打印",
+        exportPdf: "导出 (.pdf)",
+        search: "搜索",
+        resources: "资源",
+        categories: "类别",
+        clearFilter: "清除筛选",
+        daySummary: (count, hours) => `${count} 个事件 · ${hours} 小时`,
+        copy: "复制",
+        duplicateTo: "复制到…",
+        duplicate: "复制",
       };
     case "pt":
       return {
@@ -138,6 +310,30 @@ export default function GetMessages(lang: string): Messages {
         agenda: "Agenda",
         noEventsInRange: "Não há eventos nesse intervalo.",
         showMore: (total) => `+${total} mais`,
+        exportIcs: "Exportar (.ics)",
+        legend: "Legenda",
+        timeline: "Linha do tempo",
+        conflictWarning: "Sobrepõe-se a:",
+        year: "Ano",
+        newEvent: "Novo evento",
+        eventName: "Nome",
+        eventStart: "Início",
+        eventEnd: "Fim",
+        eventResource: "Recurso",
+        save: "Salvar",
+        cancel: "Cancelar",
+        openRecord: "Abrir registro",
+        close: "Fechar",
+        print: "Imprimir",
+        exportPdf: "Exportar (.pdf)",
+        search: "Pesquisar",
+        resources: "Recursos",
+        categories: "Categorias",
+        clearFilter: "Limpar filtros",
+        daySummary: (count, hours) => `${count} eventos · ${hours} h`,
+        copy: "Copiar",
+        duplicateTo: "Duplicar para…",
+        duplicate: "Duplicar",
       };
     case "ja":
       return {
@@ -157,6 +353,30 @@ export default function GetMessages(lang: string): Messages {
         agenda: "議題",
         noEventsInRange: "この範囲内にイベントはありません。",
         showMore: (total) => `+${total} もっと見る`,
+        exportIcs: "エクスポート (.ics)",
+        legend: "凡例",
+        timeline: "タイムライン",
+        conflictWarning: "重複:",
+        year: "年",
+        newEvent: "新しいイベント",
+        eventName: "名前",
+        eventStart: "開始",
+        eventEnd: "終了",
+        eventResource: "リソース",
+        save: "保存",
+        cancel: "キャンセル",
+        openRecord: "レコードを開く",
+        close: "閉じる",
+        print: "印刷",
+        exportPdf: "エクスポート (.pdf)",
+        search: "検索",
+        resources: "リソース",
+        categories: "カテゴリ",
+        clearFilter: "フィルターをクリア",
+        daySummary: (count, hours) => `${count} 件のイベント · ${hours} 時間`,
+        copy: "コピー",
+        duplicateTo: "複製先…",
+        duplicate: "複製",
       };
     case "ko":
       return {
@@ -176,6 +396,30 @@ export default function GetMessages(lang: string): Messages {
         agenda: "의제",
         noEventsInRange: "이 범위에는 이벤트가 없습니다.",
         showMore: (total) => `+${total} 더 보기`,
+        exportIcs: "내보내기 (.ics)",
+        legend: "범례",
+        timeline: "타임라인",
+        conflictWarning: "겹치는 일정:",
+        year: "연",
+        newEvent: "새 이벤트",
+        eventName: "이름",
+        eventStart: "시작",
+        eventEnd: "종료",
+        eventResource: "리소스",
+        save: "저장",
+        cancel: "취소",
+        openRecord: "레코드 열기",
+        close: "닫기",
+        print: "인쇄",
+        exportPdf: "내보내기 (.pdf)",
+        search: "검색",
+        resources: "리소스",
+        categories: "범주",
+        clearFilter: "필터 지우기",
+        daySummary: (count, hours) => `${count}개 이벤트 · ${hours}시간`,
+        copy: "복사",
+        duplicateTo: "다음으로 복제…",
+        duplicate: "복제",
       };
     case "tr":
       return {
@@ -195,6 +439,30 @@ export default function GetMessages(lang: string): Messages {
         agenda: "Ajanda",
         noEventsInRange: "Bu aralıkta etkinlik yok.",
         showMore: (total) => `+${total} daha fazla`,
+        exportIcs: "Dışa Aktar (.ics)",
+        legend: "Gösterge",
+        timeline: "Zaman Çizelgesi",
+        conflictWarning: "Çakışıyor:",
+        year: "Yıl",
+        newEvent: "Yeni etkinlik",
+        eventName: "Ad",
+        eventStart: "Başlangıç",
+        eventEnd: "Bitiş",
+        eventResource: "Kaynak",
+        save: "Kaydet",
+        cancel: "İptal",
+        openRecord: "Kaydı aç",
+        close: "Kapat",
+        print: "Yazdır",
+        exportPdf: "Dışa aktar (.pdf)",
+        search: "Ara",
+        resources: "Kaynaklar",
+        categories: "Kategoriler",
+        clearFilter: "Filtreleri temizle",
+        daySummary: (count, hours) => `${count} etkinlik · ${hours} sa`,
+        copy: "Kopyala",
+        duplicateTo: "Şuraya çoğalt…",
+        duplicate: "Çoğalt",
       };
     case "vi":
       return {
@@ -214,6 +482,30 @@ export default function GetMessages(lang: string): Messages {
         agenda: "Lịch trình",
         noEventsInRange: "Không có sự kiện nào trong phạm vi này.",
         showMore: (total) => `+${total} nữa`,
+        exportIcs: "Xuất (.ics)",
+        legend: "Chú thích",
+        timeline: "Dòng thời gian",
+        conflictWarning: "Trùng với:",
+        year: "Năm",
+        newEvent: "Sự kiện mới",
+        eventName: "Tên",
+        eventStart: "Bắt đầu",
+        eventEnd: "Kết thúc",
+        eventResource: "Tài nguyên",
+        save: "Lưu",
+        cancel: "Hủy",
+        openRecord: "Mở bản ghi",
+        close: "Đóng",
+        print: "In",
+        exportPdf: "Xuất (.pdf)",
+        search: "Tìm kiếm",
+        resources: "Tài nguyên",
+        categories: "Danh mục",
+        clearFilter: "Xóa bộ lọc",
+        daySummary: (count, hours) => `${count} sự kiện · ${hours} giờ`,
+        copy: "Sao chép",
+        duplicateTo: "Nhân bản đến…",
+        duplicate: "Nhân bản",
       };
     case "he":
       return {
@@ -233,6 +525,30 @@ export default function GetMessages(lang: string): Messages {
         agenda: "סֵדֶר יוֹם",
         noEventsInRange: "אין אירועים בטווח זה.",
         showMore: (total) => `+${total} עוד`,
+        exportIcs: "ייצוא (.ics)",
+        legend: "מקרא",
+        timeline: "ציר זמן",
+        conflictWarning: "חופף ל:",
+        year: "שנה",
+        newEvent: "אירוע חדש",
+        eventName: "שם",
+        eventStart: "התחלה",
+        eventEnd: "סיום",
+        eventResource: "משאב",
+        save: "שמור",
+        cancel: "ביטול",
+        openRecord: "פתח רשומה",
+        close: "סגור",
+        print: "הדפסה",
+        exportPdf: "ייצוא (.pdf)",
+        search: "חיפוש",
+        resources: "משאבים",
+        categories: "קטגוריות",
+        clearFilter: "נקה מסננים",
+        daySummary: (count, hours) => `${count} אירועים · ${hours} שעות`,
+        copy: "העתק",
+        duplicateTo: "שכפל אל…",
+        duplicate: "שכפל",
       };
     case "nl":
       return {
@@ -252,6 +568,30 @@ export default function GetMessages(lang: string): Messages {
         agenda: "Agenda",
         noEventsInRange: "Er zijn geen evenementen gepland in deze periode.",
         showMore: (total) => `+${total} meer`,
+        exportIcs: "Exporteren (.ics)",
+        legend: "Legenda",
+        timeline: "Tijdlijn",
+        conflictWarning: "Overlapt met:",
+        year: "Jaar",
+        newEvent: "Nieuwe afspraak",
+        eventName: "Naam",
+        eventStart: "Begin",
+        eventEnd: "Einde",
+        eventResource: "Resource",
+        save: "Opslaan",
+        cancel: "Annuleren",
+        openRecord: "Record openen",
+        close: "Sluiten",
+        print: "Afdrukken",
+        exportPdf: "Exporteren (.pdf)",
+        search: "Zoeken",
+        resources: "Resources",
+        categories: "Categorieën",
+        clearFilter: "Filters wissen",
+        daySummary: (count, hours) => `${count} afspraken · ${hours} uur`,
+        copy: "Kopiëren",
+        duplicateTo: "Dupliceren naar…",
+        duplicate: "Dupliceren",
       };
     case "en":
     default:
@@ -272,6 +612,30 @@ export default function GetMessages(lang: string): Messages {
         agenda: "Agenda",
         noEventsInRange: "There are no events in this range.",
         showMore: (total) => `+${total} more`,
+        exportIcs: "Export (.ics)",
+        legend: "Legend",
+        timeline: "Timeline",
+        conflictWarning: "Overlaps with:",
+        year: "Year",
+        newEvent: "New event",
+        eventName: "Name",
+        eventStart: "Start",
+        eventEnd: "End",
+        eventResource: "Resource",
+        save: "Save",
+        cancel: "Cancel",
+        openRecord: "Open record",
+        close: "Close",
+        print: "Print",
+        exportPdf: "Export (.pdf)",
+        search: "Search",
+        resources: "Resources",
+        categories: "Categories",
+        clearFilter: "Clear filters",
+        daySummary: (count, hours) => `${count} events · ${hours} h`,
+        copy: "Copy",
+        duplicateTo: "Duplicate to…",
+        duplicate: "Duplicate",
       };
   }
 }
@@ -0,0 +1,173 @@
+import * as React from "react";
+import { useMemo } from "react";
+import * as PropTypes from "prop-types";
+import clsx from "clsx";
+import { DateLocalizer, Navigate, NavigateAction } from "react-big-calendar";
+import { IEvent } from "../types";
+
+const MAX_DOTS = 3;
+
+interface YearProps {
+  style?: React.CSSProperties;
+  className?: string;
+}
+
+export interface YearViewProps {
+  date: Date;
+  localizer: DateLocalizer;
+  culture?: string;
+  events: IEvent[];
+  getNow: () => Date;
+  accessors: {
+    start: (event: IEvent) => Date;
+    end: (event: IEvent) => Date;
+  };
+  getters: {
+    eventProp: (event: IEvent, start: Date, end: Date, isSelected: boolean) => YearProps;
+    dayProp: (date: Date) => YearProps;
+  };
+  getDrilldownView: (date: Date) => string | null;
+  onDrillDown: (date: Date, view: string) => void;
+  [key: string]: unknown; // Allow additional props
+}
+
+const getDayKey = (date: Date) =>
+  `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+// Displays the twelve months of the year with the number of events on each day
+export default function Year({
+  date,
+  localizer,
+  culture,
+  events,
+  getNow,
+  accessors,
+  getters,
+  getDrilldownView,
+  onDrillDown,
+}: YearViewProps) {
+  const months = useMemo(() => Year.range(date, { localizer }), [date, localizer]);
+
+  // counts the events on each day of the displayed year along with the colors used for the dots
+  const eventDays = useMemo(() => {
+    const days = new Map<string, { count: number; colors: string[] }>();
+    const yearStart = months[0];
+    const yearEnd = localizer.add(yearStart, 1, "year");
+    events.forEach((event) => {
+      const start = accessors.start(event);
+      const end = accessors.end(event);
+      if (!start || !end || start >= yearEnd || end < yearStart) return;
+
+      const firstDay = start < yearStart ? yearStart : start;
+      const day = new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate());
+      do {
+        const key = getDayKey(day);
+        const eventDay = days.get(key) || { count: 0, colors: [] };
+        const color = getters.eventProp(event, start, end, false).style?.backgroundColor as string;
+        eventDay.count++;
+        if (color && !eventDay.colors.includes(color)) {
+          eventDay.colors.push(color);
+        }
+        days.set(key, eventDay);
+        day.setDate(day.getDate() + 1);
+      } while (day < end && day < yearEnd);
+    });
+    return days;
+  }, [events, months, localizer, accessors, getters]);
+
+  const today = getDayKey(getNow());
+
+  const _handleDayClick = (day: Date) => {
+    const view = getDrilldownView(day);
+    if (view) {
+      onDrillDown(day, view);
+    }
+  };
+
+  return (
+    <div className="rbc-year-view">
+      {months.map((month) => {
+        const days = localizer.visibleDays(month, localizer);
+        return (
+          <div className="rbc-year-month" key={month.getMonth()}>
+            <div className="rbc-year-month-header">
+              {localizer.format(month, "monthHeaderFormat", culture)}
+            </div>
+            <div className="rbc-year-month-grid">
+              {days.slice(0, 7).map((day) => (
+                <div className="rbc-year-weekday" key={`weekday-${day.getDay()}`}>
+                  {localizer.format(day, "weekdayFormat", culture)}
+                </div>
+              ))}
+              {days.map((day) => {
+                const key = getDayKey(day);
+                const eventDay = eventDays.get(key);
+                const isOffRange = day.getMonth() !== month.getMonth();
+                const dayProps = isOffRange ? {} : getters.dayProp(day);
+                return (
+                  <button
+                    type="button"
+                    key={key}
+                    title={eventDay ? `${eventDay.count}` : undefined}
+                    className={clsx("rbc-year-day", dayProps.className, {
+                      "rbc-off-range": isOffRange,
+                      "rbc-now": key === today,
+                    })}
+                    style={dayProps.style}
+                    onClick={() => _handleDayClick(day)}
+                  >
+                    {localizer.format(day, "dateFormat", culture)}
+                    {eventDay && !isOffRange && (
+                      <span className="rbc-year-day-dots">
+                        {eventDay.colors.slice(0, MAX_DOTS).map((color) => (
+                          <span
+                            key={color}
+                            className="rbc-year-day-dot"
+                            style={{ backgroundColor: color }}
+                          />
+                        ))}
+                        {eventDay.count > MAX_DOTS && (
+                          <span className="rbc-year-day-count">{eventDay.count}</span>
+                        )}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+Year.propTypes = {
+  date: PropTypes.instanceOf(Date).isRequired,
+  localizer: PropTypes.object,
+};
+
+// The range is the first day of each month in the year
+Year.range = (date: Date, { localizer }: { localizer: DateLocalizer }): Date[] => {
+  const start = localizer.startOf(date, "year");
+  return Array.from({ length: 12 }, (_, i) => localizer.add(start, i, "month"));
+};
+
+Year.navigate = (
+  date: Date,
+  action: NavigateAction,
+  { localizer }: { localizer: DateLocalizer }
+): Date => {
+  switch (action) {
+    case Navigate.PREVIOUS:
+      return localizer.add(date, -1, "year");
+    case Navigate.NEXT:
+      return localizer.add(date, 1, "year");
+    default:
+      return date;
+  }
+};
+
+Year.title = (date: Date, { localizer }: { localizer: DateLocalizer }): string => {
+  return localizer.format(date, "YYYY");
+};
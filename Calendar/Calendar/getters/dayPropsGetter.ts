@@ -5,15 +5,47 @@ export function dayPropsGetter(
   date: Date,
   calendarTodayBackgroundColor: Color<string> | string,
   weekendColor: Color<string> | string,
-  momentInstance: (input?: MomentInput) => Moment
+  momentInstance: (input?: MomentInput) => Moment,
+  now: Date,
+  nonWorkingColor?: Color<string> | string,
+  isWorkingDay?: boolean,
+  holidayColor?: Color<string> | string,
+  isHoliday?: boolean,
+  heatmapColor?: string
 ) {
   // Check if the day is today
-  if (momentInstance(date).startOf("day").isSame(momentInstance().startOf("day")))
+  if (momentInstance(date).startOf("day").isSame(momentInstance(now).startOf("day")))
     return {
       style: {
         backgroundColor: calendarTodayBackgroundColor.toString(),
       },
     };
+  // Check if the day is a holiday or blackout date
+  if (holidayColor && isHoliday) {
+    return {
+      className: "rbc-holiday-day",
+      style: {
+        backgroundColor: holidayColor.toString(),
+      },
+    };
+  }
+  // Check if the day is shaded by the month heatmap
+  if (heatmapColor) {
+    return {
+      className: "rbc-heatmap-day",
+      style: {
+        backgroundColor: heatmapColor,
+      },
+    };
+  }
+  // Check if the day is outside of the working hours
+  if (nonWorkingColor && isWorkingDay === false) {
+    return {
+      style: {
+        backgroundColor: nonWorkingColor.toString(),
+      },
+    };
+  }
   // Check if the day is a weekend (Saturday or Sunday)
   if (momentInstance(date).day() === 0 || momentInstance(date).day() === 6) {
     return {
@@ -1,15 +1,24 @@
 import { IEvent } from "../types";
 import * as Color from "color";
+import clsx from "clsx";
 
 export function eventPropsGetter(
   event: IEvent,
   isEventSelectable: boolean,
   eventDefaultBackgroundColor: Color<string> | string,
-  calendarBorderColor: Color<string> | string
+  calendarBorderColor: Color<string> | string,
+  isMultiSelected?: boolean
 ) {
   return {
+    // Events that overlap with another event on the same resource get a warning style
+    className:
+      clsx({
+        "rbc-event-conflict": !!event.conflictsWith?.length,
+        "rbc-event-multi-selected": isMultiSelected,
+        "rbc-event-summary": event.summary,
+      }) || undefined,
     style: {
-      cursor: isEventSelectable ? "pointer" : "default",
+      cursor: (isEventSelectable && !event.background) || event.summary ? "pointer" : "default",
       backgroundColor: event.color || eventDefaultBackgroundColor.toString(),
       color: Color(event.color || eventDefaultBackgroundColor).isDark()
         ? "#fff"
@@ -0,0 +1,16 @@
+import * as moment from "moment";
+import { View } from "react-big-calendar";
+
+// Sets the date and view together when drilling into a date so the view is not reset by the navigation
+export function handleDrillDown(
+  setCalendarDate: (date: Date) => void,
+  setCalendarView: (view: string) => void,
+  calendarViews: View[]
+) {
+  return (date: Date, view: string) => {
+    setCalendarDate(moment(date).toDate());
+    if (view && Object.keys(calendarViews).includes(view)) {
+      setCalendarView(view);
+    }
+  };
+}
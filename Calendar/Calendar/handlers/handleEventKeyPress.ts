@@ -2,11 +2,23 @@ import * as CalendarUtils from "../utils";
 import { IEvent } from "../types";
 import * as React from "react";
 
-export function handleEventKeyPress(_handleEventSelected: (event: IEvent) => void) {
+export function handleEventKeyPress(
+  _handleEventSelected: (event: IEvent, e?: React.SyntheticEvent<HTMLElement>) => void,
+  onCopy?: (event: IEvent) => void
+) {
   return (event: IEvent, e: React.SyntheticEvent<HTMLElement>) => {
     const keyboardEvent = e as unknown as React.KeyboardEvent<HTMLElement>;
+    // ctrl or cmd + c copies the event so it can be pasted on another date
+    if (
+      onCopy &&
+      (keyboardEvent.ctrlKey || keyboardEvent.metaKey) &&
+      keyboardEvent.key.toLowerCase() === CalendarUtils.COPY_KEY
+    ) {
+      onCopy(event);
+      return;
+    }
     if (CalendarUtils.VALID_KEYS.includes(keyboardEvent.key)) {
-      _handleEventSelected(event);
+      _handleEventSelected(event, e);
     }
   };
 }
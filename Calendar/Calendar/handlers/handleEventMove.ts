@@ -0,0 +1,76 @@
+import * as React from "react";
+import * as CalendarUtils from "../utils";
+import { IEvent, CalendarData, TimeZoneConverter } from "../types";
+import { EventInteractionArgs } from "react-big-calendar/lib/addons/dragAndDrop";
+import { IInputs } from "../generated/ManifestTypes";
+
+// Handles both the drop and resize of an event since they provide the same arguments
+export function handleEventMove(
+  isEventDraggable: boolean,
+  onRecordMoved: (recordId: string, start: Date, end: Date, resourceId: string) => void,
+  pcfContext: ComponentFramework.Context<IInputs>,
+  calendarData: CalendarData,
+  setCalendarData: React.Dispatch<React.SetStateAction<CalendarData>>,
+  timeZoneConverter: TimeZoneConverter
+) {
+  return (args: EventInteractionArgs<IEvent>) => {
+    if (!isEventDraggable) {
+      return;
+    }
+
+    const { event } = args;
+    const eventId = event.id as string;
+    const start = new Date(args.start);
+    const end = new Date(args.end);
+    // resourceId is only provided when the event is dropped on a resource column
+    const resourceId =
+      args.resourceId !== undefined ? String(args.resourceId) : (event.resource as string) || "";
+
+    // isAllDay is only provided when the event is dropped in or out of the all day header
+    const allDay = args.isAllDay !== undefined ? args.isAllDay : event.allDay;
+
+    // Update the event locally so it does not snap back while the record is saved
+    setCalendarData((data) => ({
+      ...data,
+      events: data.events.map((e) =>
+        e.id === eventId ? { ...e, start, end, allDay, resource: resourceId || e.resource } : e
+      ),
+    }));
+
+    onRecordMoved(
+      eventId,
+      timeZoneConverter.fromDisplayTime(start),
+      timeZoneConverter.fromDisplayTime(end),
+      resourceId
+    );
+
+    // Events loaded from ICS content do not have a record that can be updated
+    if (
+      pcfContext.mode.allocatedHeight === -1 &&
+      calendarData.keys &&
+      pcfContext.parameters.calendarDataSet.records[eventId]
+    ) {
+      const keys = calendarData.keys;
+      const recordStart = CalendarUtils.toRecordDate(keys, timeZoneConverter, start);
+      const recordEnd = CalendarUtils.toRecordDate(keys, timeZoneConverter, end);
+      const asyncUpdateRecord = async () => {
+        try {
+          await CalendarUtils.updateEventRecord(
+            pcfContext,
+            keys,
+            eventId,
+            recordStart,
+            recordEnd,
+            resourceId,
+            allDay
+          );
+        } catch (e) {
+          pcfContext.navigation.openErrorDialog({ message: (e as Error).message });
+        }
+        // Refresh so the calendar reflects what was saved, or reverts if the save failed
+        pcfContext.parameters.calendarDataSet.refresh();
+      };
+      asyncUpdateRecord();
+    }
+  };
+}
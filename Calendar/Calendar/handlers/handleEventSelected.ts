@@ -1,20 +1,54 @@
+import * as React from "react";
 import { IInputs } from "../generated/ManifestTypes";
-import { IEvent } from "../types";
+import { IEvent, EventSelectionMode } from "../types";
 
 export function handleEventSelected(
   isEventSelectable: boolean,
-  onClickSelectedRecord: (id: string) => void,
-  pcfContext: ComponentFramework.Context<IInputs>
+  onClickSelectedRecord: (id: string, occurrenceStart?: Date) => void,
+  pcfContext: ComponentFramework.Context<IInputs>,
+  onQuickView?: (event: IEvent, target?: HTMLElement) => void,
+  onSelectionChange?: (event: IEvent, mode: EventSelectionMode) => void,
+  onSummarySelected?: (event: IEvent) => void
 ) {
-  return (event: IEvent) => {
-    if (!isEventSelectable) {
+  return (event: IEvent, e?: React.SyntheticEvent<HTMLElement>) => {
+    // summaries of busy days open the day instead of a record
+    if (event.summary) {
+      onSummarySelected?.(event);
       return;
     }
 
+    // holidays and blackout dates cannot be selected
+    if (!isEventSelectable || event.background) {
+      return;
+    }
+
+    // ctrl or shift clicking adds the event to the selection instead of opening it
+    const mouseEvent = e as React.MouseEvent<HTMLElement> | undefined;
+    if (mouseEvent?.ctrlKey || mouseEvent?.metaKey || mouseEvent?.shiftKey) {
+      onSelectionChange?.(event, mouseEvent.shiftKey ? "range" : "toggle");
+      return;
+    }
+    onSelectionChange?.(event, "single");
+
     const eventId = event.id as string;
-    onClickSelectedRecord(eventId);
+    // Events loaded from ICS content have the UID as their id and do not have a record to open
+    if (
+      event.ics ||
+      (pcfContext.mode.allocatedHeight === -1 && !pcfContext.parameters.calendarDataSet.records[eventId])
+    ) {
+      return;
+    }
+
+    // Occurrences of a recurring event return the series record id along with the occurrence start
+    onClickSelectedRecord(eventId, event.seriesStart ? event.start : undefined);
 
     if (pcfContext.mode.allocatedHeight === -1) {
+      // the record is shown in the popover instead of the form
+      if (onQuickView) {
+        onQuickView(event, e?.currentTarget || (e?.target as HTMLElement));
+        return;
+      }
+
       pcfContext.navigation.openForm({
         entityId: eventId,
         entityName: pcfContext.parameters.calendarDataSet.getTargetEntityType(),
@@ -1,5 +1,5 @@
 import * as CalendarUtils from "../utils";
-import { Resource, Keys } from "../types";
+import { Resource, Keys, TimeZoneConverter } from "../types";
 import { SlotInfo as RBCSlotInfo } from "react-big-calendar";
 import { IInputs } from "../generated/ManifestTypes";
 
@@ -14,24 +14,61 @@ interface CalendarData {
 }
 
 export function handleSlotSelect(
-    onClickSlot: (start: Date, end: Date, resourceId: string) => void,
+    onClickSlot: (start: Date, end: Date, resourceId: string, allDay: boolean) => void,
     pcfContext: ComponentFramework.Context<IInputs>,
-    calendarData: CalendarData
+    calendarData: CalendarData,
+    timeZoneConverter: TimeZoneConverter,
+    onQuickCreate?: (slotInfo: SlotInfo, allDay: boolean) => void
 ) {
     return (slotInfo: SlotInfo) => {
+        // slots picked in the all day header or month view are treated as all day
+        const isAllDay = CalendarUtils.isAllDaySlot(slotInfo.start, slotInfo.end);
+
         // slotInfo.resourceId is always string | undefined here
-        onClickSlot(slotInfo.start, slotInfo.end, slotInfo.resourceId || "");
+        onClickSlot(
+            timeZoneConverter.fromDisplayTime(slotInfo.start),
+            timeZoneConverter.fromDisplayTime(slotInfo.end),
+            slotInfo.resourceId || "",
+            isAllDay
+        );
 
         if (pcfContext.mode.allocatedHeight === -1) {
+            // the record is created from the popover instead of the form
+            if (onQuickCreate) {
+                onQuickCreate(slotInfo, isAllDay);
+                return;
+            }
+
             const newRecordProperties: { [key: string]: string } = {};
 
-            if (calendarData.keys?.start) {
+            if (calendarData.keys?.dateOnly) {
+                // date only records use an inclusive end date
+                const inclusiveEnd = new Date(slotInfo.end);
+                inclusiveEnd.setDate(inclusiveEnd.getDate() - 1);
                 newRecordProperties[calendarData.keys.start] =
-                    CalendarUtils.formatDateAsParameterString(slotInfo.start);
-            }
-            if (calendarData.keys?.end) {
+                    CalendarUtils.formatDateOnlyString(slotInfo.start);
                 newRecordProperties[calendarData.keys.end] =
-                    CalendarUtils.formatDateAsParameterString(slotInfo.end);
+                    CalendarUtils.formatDateOnlyString(
+                        isAllDay ? inclusiveEnd : slotInfo.end
+                    );
+            } else {
+                // form parameters are read in the users Dataverse time zone unless the field is time zone independent
+                const userTimeZoneConverter = CalendarUtils.getUserTimeZoneConverter(pcfContext);
+                const toParameterDate = (date: Date) =>
+                    calendarData.keys?.timeZoneIndependent
+                        ? date
+                        : userTimeZoneConverter.toDisplayTime(timeZoneConverter.fromDisplayTime(date));
+                if (calendarData.keys?.start) {
+                    newRecordProperties[calendarData.keys.start] =
+                        CalendarUtils.formatDateAsParameterString(toParameterDate(slotInfo.start));
+                }
+                if (calendarData.keys?.end) {
+                    newRecordProperties[calendarData.keys.end] =
+                        CalendarUtils.formatDateAsParameterString(toParameterDate(slotInfo.end));
+                }
+                if (calendarData.keys?.allDay && isAllDay) {
+                    newRecordProperties[calendarData.keys.allDay] = "true";
+                }
             }
 
             if (
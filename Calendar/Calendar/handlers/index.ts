@@ -2,4 +2,6 @@ export * from "./handleNavigate";
 export * from "./handleOnView";
 export * from "./handleEventKeyPress";
 export * from "./handleEventSelected";
-export * from "./handleSlotSelect";
\ No newline at end of file
+export * from "./handleSlotSelect";
+export * from "./handleEventMove";
+export * from "./handleDrillDown";
\ No newline at end of file
@@ -1,6 +1,7 @@
 export * from "./useCalendarHourRange";
 export * from "./useDayLayoutAlgorithm";
 export * from "./useEventSelectable";
+export * from "./useEventDraggable";
 export * from "./useCalendarStepAndTimeslots";
 export * from "./useCalendarSelectable";
 export * from "./useCalendarPopup"
@@ -8,4 +9,18 @@ export * from "./useCalendarDate"
 export * from "./useEventHeaderFormat";
 export * from "./useCalendarView";
 export * from "./useCalendarData";
-export * from "./useCalendarColors";
\ No newline at end of file
+export * from "./useCalendarColors";
+export * from "./useCalendarEvents";
+export * from "./useCalendarShowExport";
+export * from "./useCalendarShowPrint";
+export * from "./useCalendarShowFilter";
+export * from "./useTimeZoneConverter";
+export * from "./useWorkingHours";
+export * from "./useCalendarSelectWorkingHoursOnly";
+export * from "./useEventConflicts";
+export * from "./useEventOpenInPopover";
+export * from "./useHolidayEvents";
+export * from "./useHolidayBlockSelection";
+export * from "./useMonthHeatmap"
+export * from "./useCalendarAccessibilityMode"
+export * from "./useCalendarRememberState"
\ No newline at end of file
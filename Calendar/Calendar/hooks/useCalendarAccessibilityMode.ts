@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+import * as CalendarUtils from "../utils";
+import { IInputs } from "../generated/ManifestTypes";
+
+// Enables moving around the calendar and selecting slots with the keyboard
+export function useCalendarAccessibilityMode(pcfContext: ComponentFramework.Context<IInputs>) {
+  const [accessibilityMode, setAccessibilityMode] = useState<boolean>(
+    pcfContext.parameters.calendarAccessibilityMode?.raw?.toLowerCase() === "true"
+      ? true
+      : CalendarUtils.DEFAULT_ACCESSIBILITY_MODE
+  );
+
+  useEffect(() => {
+    const accessibilityModeValue =
+      pcfContext.parameters.calendarAccessibilityMode?.raw?.toLowerCase() === "true"
+        ? true
+        : CalendarUtils.DEFAULT_ACCESSIBILITY_MODE;
+    setAccessibilityMode(accessibilityModeValue);
+  }, [pcfContext.parameters.calendarAccessibilityMode?.raw]);
+
+  return accessibilityMode;
+}
@@ -53,6 +53,18 @@ export function useCalendarColors(pcfContext: ComponentFramework.Context<IInputs
       : CalendarUtils.DEFAULT_WEEKEND_BACKGROUND_COLOR
   );
 
+  const [nonWorkingColor, setNonWorkingColor] = useState<string>(
+    isHexColor(pcfContext.parameters.nonWorkingBackgroundColor?.raw || "")
+      ? pcfContext.parameters.nonWorkingBackgroundColor.raw!
+      : CalendarUtils.DEFAULT_NON_WORKING_BACKGROUND_COLOR
+  );
+
+  const [holidayColor, setHolidayColor] = useState<string>(
+    isHexColor(pcfContext.parameters.holidayBackgroundColor?.raw || "")
+      ? pcfContext.parameters.holidayBackgroundColor.raw!
+      : CalendarUtils.DEFAULT_HOLIDAY_BACKGROUND_COLOR
+  );
+
   useEffect(() => {
     setEventDefaultBackgroundColor(
       Color(
@@ -110,6 +122,20 @@ export function useCalendarColors(pcfContext: ComponentFramework.Context<IInputs
     setWeekendColor(color);
   }, [pcfContext.parameters.weekendBackgroundColor?.raw]);
 
+  useEffect(() => {
+    const color = isHexColor(pcfContext.parameters.nonWorkingBackgroundColor?.raw || "")
+      ? pcfContext.parameters.nonWorkingBackgroundColor.raw!
+      : CalendarUtils.DEFAULT_NON_WORKING_BACKGROUND_COLOR;
+    setNonWorkingColor(color);
+  }, [pcfContext.parameters.nonWorkingBackgroundColor?.raw]);
+
+  useEffect(() => {
+    const color = isHexColor(pcfContext.parameters.holidayBackgroundColor?.raw || "")
+      ? pcfContext.parameters.holidayBackgroundColor.raw!
+      : CalendarUtils.DEFAULT_HOLIDAY_BACKGROUND_COLOR;
+    setHolidayColor(color);
+  }, [pcfContext.parameters.holidayBackgroundColor?.raw]);
+
   useEffect(() => {
     const root = document.documentElement;
     root.style.setProperty(
@@ -159,5 +185,7 @@ export function useCalendarColors(pcfContext: ComponentFramework.Context<IInputs
     calendarBorderColor,
     calendarTimeBarBackgroundColor,
     weekendColor,
+    nonWorkingColor,
+    holidayColor,
   };
 }
@@ -1,14 +1,12 @@
 import { useState, useEffect } from "react";
-import { Resource, Keys, IEvent } from "../types";
+import { CalendarData } from "../types";
 import * as CalendarUtils from "../utils";
 import { IInputs } from "../generated/ManifestTypes";
 
 export function useCalendarData(pcfContext: ComponentFramework.Context<IInputs>) {
-  const [calendarData, setCalendarData] = useState<{
-    resources: Resource[] | undefined;
-    events: IEvent[];
-    keys: Keys | undefined;
-  }>({ resources: [], events: [], keys: undefined });
+  const [calendarData, setCalendarData] = useState<CalendarData>(
+    { resources: [], events: [], keys: undefined }
+  );
 
   useEffect(() => {
     async function asyncCalendarData() {
@@ -36,7 +34,7 @@ export function useCalendarData(pcfContext: ComponentFramework.Context<IInputs>)
       }
     }
     asyncCalendarData();
-  }, [pcfContext.parameters.calendarDataSet.records]);
+  }, [pcfContext.parameters.calendarDataSet.records, pcfContext.parameters.calendarTimeZone?.raw]);
 
   return [calendarData, setCalendarData] as const;
 }
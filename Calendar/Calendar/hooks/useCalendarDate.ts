@@ -1,15 +1,22 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Moment, MomentInput } from "moment";
 import { IInputs } from "../generated/ManifestTypes";
 
-export function useCalendarDate(pcfContext: ComponentFramework.Context<IInputs>, momentInstance: (input?: MomentInput) => Moment) {
+export function useCalendarDate(pcfContext: ComponentFramework.Context<IInputs>, momentInstance: (input?: MomentInput) => Moment, savedDate?: Date) {
     const [calendarDate, setCalendarDate] = useState(
-        pcfContext.parameters.calendarDate?.raw?.getTime() === 0
+        savedDate ||
+        (pcfContext.parameters.calendarDate?.raw?.getTime() === 0
             ? momentInstance().toDate()
-            : pcfContext.parameters.calendarDate?.raw || momentInstance().toDate()
+            : pcfContext.parameters.calendarDate?.raw || momentInstance().toDate())
     );
+    const isFirstRender = useRef(true);
 
     useEffect(() => {
+        // The prop is not applied on the first render so it does not replace the remembered date
+        if (isFirstRender.current) {
+            isFirstRender.current = false;
+            if (savedDate) return;
+        }
         if (
             pcfContext.parameters.calendarDate?.raw?.getTime() !== 0 &&
             !momentInstance(calendarDate).isSame(pcfContext.parameters.calendarDate.raw)
@@ -0,0 +1,28 @@
+import { useMemo } from "react";
+import { IEvent, TimeZoneConverter } from "../types";
+import * as CalendarUtils from "../utils";
+
+export function useCalendarEvents(
+  events: IEvent[],
+  calendarDate: Date,
+  calendarView: string,
+  calendarCulture: string,
+  icsContent: string,
+  icsMode: string,
+  timeZoneConverter: TimeZoneConverter
+) {
+  // Only the occurrences of recurring events inside the visible range are rendered
+  const calendarEvents = useMemo(() => {
+    const range = CalendarUtils.getCurrentRange(calendarDate, calendarView, calendarCulture);
+    const dataSetEvents =
+      icsContent && icsMode === "replace"
+        ? []
+        : CalendarUtils.expandRecurringEvents(events, range.start, range.end, timeZoneConverter);
+    const icsEvents = icsContent
+      ? CalendarUtils.parseIcsDocument(icsContent, range.start, range.end, timeZoneConverter)
+      : [];
+    return dataSetEvents.concat(icsEvents);
+  }, [events, calendarDate, calendarView, calendarCulture, icsContent, icsMode, timeZoneConverter]);
+
+  return calendarEvents;
+}
@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+import * as CalendarUtils from "../utils";
+import { IInputs } from "../generated/ManifestTypes";
+
+// Remembers the view, date, filter and scroll position of the user between sessions
+export function useCalendarRememberState(pcfContext: ComponentFramework.Context<IInputs>) {
+  const [rememberState, setRememberState] = useState<boolean>(
+    CalendarUtils.isRememberStateEnabled(pcfContext)
+  );
+
+  useEffect(() => {
+    setRememberState(CalendarUtils.isRememberStateEnabled(pcfContext));
+  }, [pcfContext.parameters.calendarRememberState?.raw, pcfContext.parameters.calendarStateKey?.raw]);
+
+  return rememberState;
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from "react";
+import * as CalendarUtils from "../utils";
+import { IInputs } from "../generated/ManifestTypes";
+
+// Calendar Selectable can be set to workinghours to only allow slots inside the working hours to be selected
+export function useCalendarSelectWorkingHoursOnly(pcfContext: ComponentFramework.Context<IInputs>) {
+  const [selectWorkingHoursOnly, setSelectWorkingHoursOnly] = useState<boolean>(
+    pcfContext.parameters.calendarSelectable?.raw?.toLowerCase() ===
+      CalendarUtils.SELECTABLE_WORKING_HOURS
+  );
+
+  useEffect(() => {
+    setSelectWorkingHoursOnly(
+      pcfContext.parameters.calendarSelectable?.raw?.toLowerCase() ===
+        CalendarUtils.SELECTABLE_WORKING_HOURS
+    );
+  }, [pcfContext.parameters.calendarSelectable?.raw]);
+
+  return selectWorkingHoursOnly;
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+import * as CalendarUtils from "../utils";
+import { IInputs } from "../generated/ManifestTypes";
+
+export function useCalendarShowExport(pcfContext: ComponentFramework.Context<IInputs>) {
+  const [calendarShowExport, setCalendarShowExport] = useState<boolean>(
+    pcfContext.parameters.calendarShowExport?.raw?.toLowerCase() === "true"
+      ? true
+      : CalendarUtils.DEFAULT_SHOW_EXPORT
+  );
+
+  useEffect(() => {
+    const showExportValue =
+      pcfContext.parameters.calendarShowExport?.raw?.toLowerCase() === "true"
+        ? true
+        : CalendarUtils.DEFAULT_SHOW_EXPORT;
+    setCalendarShowExport(showExportValue);
+  }, [pcfContext.parameters.calendarShowExport?.raw]);
+
+  return calendarShowExport;
+}
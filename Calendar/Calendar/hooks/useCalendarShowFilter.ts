@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+import * as CalendarUtils from "../utils";
+import { IInputs } from "../generated/ManifestTypes";
+
+export function useCalendarShowFilter(pcfContext: ComponentFramework.Context<IInputs>) {
+  const [calendarShowFilter, setCalendarShowFilter] = useState<boolean>(
+    pcfContext.parameters.calendarShowFilter?.raw?.toLowerCase() === "true"
+      ? true
+      : CalendarUtils.DEFAULT_SHOW_FILTER
+  );
+
+  useEffect(() => {
+    const showFilterValue =
+      pcfContext.parameters.calendarShowFilter?.raw?.toLowerCase() === "true"
+        ? true
+        : CalendarUtils.DEFAULT_SHOW_FILTER;
+    setCalendarShowFilter(showFilterValue);
+  }, [pcfContext.parameters.calendarShowFilter?.raw]);
+
+  return calendarShowFilter;
+}
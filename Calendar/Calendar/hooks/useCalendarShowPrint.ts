@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+import * as CalendarUtils from "../utils";
+import { IInputs } from "../generated/ManifestTypes";
+
+export function useCalendarShowPrint(pcfContext: ComponentFramework.Context<IInputs>) {
+  const [calendarShowPrint, setCalendarShowPrint] = useState<boolean>(
+    pcfContext.parameters.calendarShowPrint?.raw?.toLowerCase() === "true"
+      ? true
+      : CalendarUtils.DEFAULT_SHOW_PRINT
+  );
+
+  useEffect(() => {
+    const showPrintValue =
+      pcfContext.parameters.calendarShowPrint?.raw?.toLowerCase() === "true"
+        ? true
+        : CalendarUtils.DEFAULT_SHOW_PRINT;
+    setCalendarShowPrint(showPrintValue);
+  }, [pcfContext.parameters.calendarShowPrint?.raw]);
+
+  return calendarShowPrint;
+}
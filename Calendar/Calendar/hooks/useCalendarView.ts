@@ -1,14 +1,24 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { getCalendarView } from "../utils/CalendarHelpers";
 import { View, ViewProps } from "react-big-calendar";
 import { Resource } from "../types";
 
-export function useCalendarView(calendarViews: View[], calendarViewRaw: string) {
+export function useCalendarView(calendarViews: View[], calendarViewRaw: string, savedView?: string) {
   const [calendarView, setCalendarView] = useState(
-    getCalendarView(calendarViews, calendarViewRaw || "")
+    getCalendarView(
+      calendarViews,
+      // The view remembered from the last session is only used when it is still available
+      savedView && Object.keys(calendarViews).includes(savedView) ? savedView : calendarViewRaw || ""
+    )
   );
+  const isFirstRender = useRef(true);
 
   useEffect(() => {
+    // The prop is not applied on the first render so it does not replace the remembered view
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      if (savedView) return;
+    }
     if (
       calendarViewRaw &&
       calendarView !== calendarViewRaw
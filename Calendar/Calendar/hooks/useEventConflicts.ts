@@ -0,0 +1,34 @@
+import { useEffect, useMemo, useState } from "react";
+import { IEvent } from "../types";
+import * as CalendarUtils from "../utils";
+import { IInputs } from "../generated/ManifestTypes";
+
+// Flags the events that overlap with another event on the same resource when conflict detection is enabled
+export function useEventConflicts(
+  pcfContext: ComponentFramework.Context<IInputs>,
+  events: IEvent[]
+) {
+  const [detectConflicts, setDetectConflicts] = useState<boolean>(
+    pcfContext.parameters.eventDetectConflicts?.raw?.toLowerCase() === "true"
+      ? true
+      : CalendarUtils.DEFAULT_DETECT_CONFLICTS
+  );
+
+  useEffect(() => {
+    const detectConflictsValue =
+      pcfContext.parameters.eventDetectConflicts?.raw?.toLowerCase() === "true"
+        ? true
+        : CalendarUtils.DEFAULT_DETECT_CONFLICTS;
+    setDetectConflicts(detectConflictsValue);
+  }, [pcfContext.parameters.eventDetectConflicts?.raw]);
+
+  const eventConflicts = useMemo(
+    () =>
+      detectConflicts
+        ? CalendarUtils.detectEventConflicts(events)
+        : { events: events, conflicts: [] as string[][] },
+    [events, detectConflicts]
+  );
+
+  return eventConflicts;
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+import * as CalendarUtils from "../utils/Constants";
+import { IInputs } from "../generated/ManifestTypes";
+
+export function useEventDraggable(pcfContext: ComponentFramework.Context<IInputs>) {
+  const [isEventDraggable, setIsEventDraggable] = useState<boolean>(
+    pcfContext.parameters.eventDraggable?.raw?.toLowerCase() === "true"
+      ? true
+      : CalendarUtils.DEFAULT_EVENT_DRAGGABLE
+  );
+
+  useEffect(() => {
+    const draggableValue =
+      pcfContext.parameters.eventDraggable?.raw?.toLowerCase() === "true"
+        ? true
+        : CalendarUtils.DEFAULT_EVENT_DRAGGABLE;
+    setIsEventDraggable(draggableValue);
+  }, [pcfContext.parameters.eventDraggable?.raw]);
+
+  return isEventDraggable;
+}
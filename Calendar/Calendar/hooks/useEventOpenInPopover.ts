@@ -0,0 +1,19 @@
+import { useEffect, useState } from "react";
+import * as CalendarUtils from "../utils";
+import { IInputs } from "../generated/ManifestTypes";
+
+// Returns true when records should be viewed and created in a popover instead of the form, only available in model apps
+export function useEventOpenInPopover(pcfContext: ComponentFramework.Context<IInputs>) {
+  const getOpenInPopover = () =>
+    pcfContext.mode.allocatedHeight === -1 &&
+    (pcfContext.parameters.eventOpenMode?.raw || CalendarUtils.DEFAULT_RECORD_OPEN_MODE) ===
+      CalendarUtils.RECORD_OPEN_MODE_POPOVER;
+
+  const [openInPopover, setOpenInPopover] = useState<boolean>(getOpenInPopover());
+
+  useEffect(() => {
+    setOpenInPopover(getOpenInPopover());
+  }, [pcfContext.parameters.eventOpenMode?.raw]);
+
+  return openInPopover;
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+import * as CalendarUtils from "../utils";
+import { IInputs } from "../generated/ManifestTypes";
+
+// Prevents time slots that overlap a holiday or blackout date from being selected
+export function useHolidayBlockSelection(pcfContext: ComponentFramework.Context<IInputs>) {
+  const [holidayBlockSelection, setHolidayBlockSelection] = useState<boolean>(
+    pcfContext.parameters.holidayBlockSelection?.raw?.toLowerCase() === "true"
+      ? true
+      : CalendarUtils.DEFAULT_HOLIDAY_BLOCK_SELECTION
+  );
+
+  useEffect(() => {
+    const blockSelectionValue =
+      pcfContext.parameters.holidayBlockSelection?.raw?.toLowerCase() === "true"
+        ? true
+        : CalendarUtils.DEFAULT_HOLIDAY_BLOCK_SELECTION;
+    setHolidayBlockSelection(blockSelectionValue);
+  }, [pcfContext.parameters.holidayBlockSelection?.raw]);
+
+  return holidayBlockSelection;
+}
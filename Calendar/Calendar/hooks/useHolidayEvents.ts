@@ -0,0 +1,57 @@
+import { useEffect, useMemo, useState } from "react";
+import { IEvent } from "../types";
+import * as CalendarUtils from "../utils";
+import { IInputs } from "../generated/ManifestTypes";
+
+// Gets the holidays and blackout dates to display behind the events, from the second data set in canvas apps
+// or from the Holiday Table in model apps
+export function useHolidayEvents(
+  pcfContext: ComponentFramework.Context<IInputs>,
+  holidayColor: string
+) {
+  const params = pcfContext.parameters;
+  const holidayDataSet = params.holidayDataSet;
+  const retrieveHolidays = pcfContext.mode.allocatedHeight === -1 && !!params.holidayEntity?.raw;
+  const [retrievedHolidays, setRetrievedHolidays] = useState<IEvent[]>([]);
+
+  useEffect(() => {
+    if (!retrieveHolidays) return;
+    let isMounted = true;
+    async function asyncHolidayEvents() {
+      try {
+        const holidays = await CalendarUtils.retrieveHolidayEvents(pcfContext, holidayColor);
+        if (isMounted) setRetrievedHolidays(holidays);
+      } catch (e) {
+        console.log(`useHolidayEvents: the holidays could not be retrieved. ${(e as Error).message}`);
+      }
+    }
+    asyncHolidayEvents();
+    return () => {
+      isMounted = false;
+    };
+  }, [
+    retrieveHolidays,
+    params.holidayEntity?.raw,
+    params.holidayFieldName?.raw,
+    params.holidayFieldStart?.raw,
+    params.holidayFieldEnd?.raw,
+    holidayColor,
+    params.calendarTimeZone?.raw,
+  ]);
+
+  const dataSetHolidays = useMemo(
+    () =>
+      retrieveHolidays || holidayDataSet?.loading
+        ? []
+        : CalendarUtils.getHolidayEvents(pcfContext, holidayColor),
+    [
+      retrieveHolidays,
+      holidayDataSet?.records,
+      holidayDataSet?.loading,
+      holidayColor,
+      params.calendarTimeZone?.raw,
+    ]
+  );
+
+  return retrieveHolidays ? retrievedHolidays : dataSetHolidays;
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from "react";
+import * as CalendarUtils from "../utils";
+import { IInputs } from "../generated/ManifestTypes";
+import { HeatmapSettings } from "../types";
+
+// Returns the settings used to shade the days and summarize busy days in the month view
+export function useMonthHeatmap(pcfContext: ComponentFramework.Context<IInputs>) {
+  const getSettings = (): HeatmapSettings => ({
+    mode: (pcfContext.parameters.monthHeatmap?.raw ||
+      CalendarUtils.DEFAULT_HEATMAP_MODE) as HeatmapSettings["mode"],
+    thresholds: CalendarUtils.parseHeatmapThresholds(
+      pcfContext.parameters.monthHeatmapThresholds?.raw || CalendarUtils.DEFAULT_HEATMAP_THRESHOLDS
+    ),
+    colors: CalendarUtils.parseHeatmapColors(
+      pcfContext.parameters.monthHeatmapColors?.raw || CalendarUtils.DEFAULT_HEATMAP_COLORS
+    ),
+    eventLimit: pcfContext.parameters.monthHeatmapEventLimit?.raw ?? 0,
+  });
+
+  const [heatmapSettings, setHeatmapSettings] = useState<HeatmapSettings>(getSettings());
+
+  useEffect(() => {
+    setHeatmapSettings(getSettings());
+  }, [
+    pcfContext.parameters.monthHeatmap?.raw,
+    pcfContext.parameters.monthHeatmapThresholds?.raw,
+    pcfContext.parameters.monthHeatmapColors?.raw,
+    pcfContext.parameters.monthHeatmapEventLimit?.raw,
+  ]);
+
+  return heatmapSettings;
+}
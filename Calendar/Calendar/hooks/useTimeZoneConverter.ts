@@ -0,0 +1,12 @@
+import { useMemo } from "react";
+import * as CalendarUtils from "../utils";
+import { IInputs } from "../generated/ManifestTypes";
+
+export function useTimeZoneConverter(pcfContext: ComponentFramework.Context<IInputs>) {
+  const timeZoneConverter = useMemo(
+    () => CalendarUtils.getTimeZoneConverter(pcfContext),
+    [pcfContext.parameters.calendarTimeZone?.raw]
+  );
+
+  return timeZoneConverter;
+}
@@ -0,0 +1,23 @@
+import { useMemo } from "react";
+import * as CalendarUtils from "../utils";
+import { Resource } from "../types";
+import { IInputs } from "../generated/ManifestTypes";
+
+// Returns a function which gets the working hours for a resource, or the default working hours
+export function useWorkingHours(
+  pcfContext: ComponentFramework.Context<IInputs>,
+  resources: Resource[] | undefined
+) {
+  const workingHoursJson = useMemo(
+    () => CalendarUtils.parseWorkingHoursJson(pcfContext.parameters.resourceWorkingHours?.raw || ""),
+    [pcfContext.parameters.resourceWorkingHours?.raw]
+  );
+
+  const getWorkingHours = useMemo(
+    () => (resourceId?: string | number) =>
+      CalendarUtils.getResourceWorkingHours(resources, workingHoursJson, resourceId),
+    [resources, workingHoursJson]
+  );
+
+  return getWorkingHours;
+}
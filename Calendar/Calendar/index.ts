@@ -4,6 +4,10 @@ type DataSet = ComponentFramework.PropertyTypes.DataSet;
 import * as React from 'react';
 import * as ReactDOM from 'react-dom';
 import {CalendarControl, IProps} from "./CalendarControl"
+import * as CalendarUtils from "./utils"
+
+//the loaded range is extended while navigating until it covers this many days
+const MAX_LOADED_RANGE_DAYS = 366;
 
 export class Calendar implements ComponentFramework.StandardControl<IInputs, IOutputs> {
 
@@ -12,14 +16,32 @@ export class Calendar implements ComponentFramework.StandardControl<IInputs, IOu
 	private _props: IProps;
 	private _selectedRecordId: string;
 	private _actionRecordSelected: boolean;
+	private _selectedRecordIds: string;
+	private _selectedOccurrenceStart: Date | undefined;
 	private _selectedSlotStart: Date | undefined;
 	private _selectedSlotEnd: Date;
 	private _actionSlotSelected: boolean;
 	private _selectedSlotResourceId: string;
+	private _selectedSlotAllDay: boolean;
+	private _movedRecordId: string;
+	private _movedRecordStart: Date | undefined;
+	private _movedRecordEnd: Date | undefined;
+	private _movedRecordResourceId: string;
+	private _actionRecordMoved: boolean;
+	private _duplicateRequest: string;
+	private _actionDuplicateRequested: boolean;
 	private _currentRangeStart: Date;
 	private _currentRangeEnd: Date;
 	private _currentCalendarDate: Date;
 	private _currentCalendarView: string;
+	private _icsContent: string;
+	private _exportIcsTrigger: boolean;
+	private _pdfContent: string;
+	private _exportPdfTrigger: boolean;
+	private _conflictingRecordIds: string;
+	private _filteredRecordIds: string;
+	private _loadedRangeStart: Date | undefined;
+	private _loadedRangeEnd: Date | undefined;
 
 	private _updateFromOutput: boolean;
 	private _notifyOutputChanged: () => void;
@@ -50,11 +72,27 @@ export class Calendar implements ComponentFramework.StandardControl<IInputs, IOu
 		// If any of them are undefined then the onChange event for the control in a canvas app will not fire.
 		this._currentRangeStart = new Date();
 		this._currentRangeEnd = new Date();
-		this._currentCalendarView = context.parameters.calendarView?.raw || "month";	
+		//restore the view, date and filter remembered from the last session before the first data load
+		const savedState = CalendarUtils.isRememberStateEnabled(context)
+			? CalendarUtils.loadCalendarState(context)
+			: undefined;
+		this._currentCalendarView = savedState?.view || context.parameters.calendarView?.raw || "month";	
 		this._selectedSlotResourceId = '';
 		this._selectedRecordId = '';
 		this._actionRecordSelected = false;
+		this._selectedRecordIds = '';
 		this._actionSlotSelected = false;
+		this._movedRecordId = '';
+		this._movedRecordResourceId = '';
+		this._actionRecordMoved = false;
+		this._duplicateRequest = '';
+		this._actionDuplicateRequested = false;
+		this._icsContent = '';
+		this._exportIcsTrigger = false;
+		this._pdfContent = '';
+		this._exportPdfTrigger = false;
+		this._conflictingRecordIds = '';
+		this._filteredRecordIds = '';
 
 		this._updateFromOutput = false;
 
@@ -62,7 +100,15 @@ export class Calendar implements ComponentFramework.StandardControl<IInputs, IOu
 			pcfContext: this._context,
 			onClickSelectedRecord: this.onClickSelectedRecord.bind(this),
 			onClickSlot: this.onClickSelectedSlot.bind(this),
+			onRecordMoved: this.onRecordMoved.bind(this),
+			onDuplicateRequested: this.onDuplicateRequested.bind(this),
 			onCalendarChange: this.onDateChange.bind(this),
+			onIcsExported: this.onIcsExported.bind(this),
+			onConflictsDetected: this.onConflictsDetected.bind(this),
+			onEventsFiltered: this.onEventsFiltered.bind(this),
+			onRecordsSelected: this.onRecordsSelected.bind(this),
+			onPdfExported: this.onPdfExported.bind(this),
+			savedState: savedState,
 		}
 		
 		//add style tag that we will add custom calendar style options to.
@@ -82,6 +128,17 @@ export class Calendar implements ComponentFramework.StandardControl<IInputs, IOu
 		
 		//set the paging size to 5000
 		context.parameters.calendarDataSet.paging.setPageSize(5000);
+		context.parameters.holidayDataSet?.paging.setPageSize(5000);
+
+		//MODEL ONLY: only load the records for the range that will be displayed first.
+		if (CalendarUtils.canLoadVisibleRange(context)) {
+			const initialRange = CalendarUtils.getCurrentRange(
+				savedState?.date ? new Date(savedState.date) : context.parameters.calendarDate?.raw || new Date(),
+				this._currentCalendarView,
+				""
+			);
+			this.loadRange(initialRange.start, initialRange.end);
+		}
 	}
 
 
@@ -91,6 +148,21 @@ export class Calendar implements ComponentFramework.StandardControl<IInputs, IOu
 	 */
 	public updateView(context: ComponentFramework.Context<IInputs>): void
 	{	
+		//CANVAS ONLY: the trigger is reset in getOutputs so only request an export when it changes to true.
+		const exportIcsTrigger = context.parameters.exportIcsTrigger?.raw === true;
+		if (exportIcsTrigger && !this._exportIcsTrigger) {
+			this._props.exportIcsRequest = (this._props.exportIcsRequest || 0) + 1;
+			this._updateFromOutput = false;
+		}
+		this._exportIcsTrigger = exportIcsTrigger;
+
+		const exportPdfTrigger = context.parameters.exportPdfTrigger?.raw === true;
+		if (exportPdfTrigger && !this._exportPdfTrigger) {
+			this._props.exportPdfRequest = (this._props.exportPdfRequest || 0) + 1;
+			this._updateFromOutput = false;
+		}
+		this._exportPdfTrigger = exportPdfTrigger;
+
 		//PERFORMANCE: If the updateView was called from the getOuputs function then do not refresh.
 		// Otherwise you will end up calling the render method additional times in canvas app
 		// when it is not needed.
@@ -117,7 +189,8 @@ export class Calendar implements ComponentFramework.StandardControl<IInputs, IOu
 
 		//MODEL ONLY
 		if (context.mode.allocatedHeight === -1 && dataSet.paging.hasNextPage) {
-			//if data set has additional pages retrieve them before running anything else
+			//if data set has additional pages retrieve them before running anything else, when the visible
+			// range is loaded these are only the pages for that range.
 			// do not do this for canvas apps since the loadNextPage is currently broken
 			dataSet.paging.loadNextPage();
 			return;
@@ -134,22 +207,75 @@ export class Calendar implements ComponentFramework.StandardControl<IInputs, IOu
 		);	
 	}
 
-	public onClickSelectedRecord(recordId: string)
+	public onClickSelectedRecord(recordId: string, occurrenceStart?: Date)
 	{
 		this._selectedRecordId = recordId;
+		this._selectedOccurrenceStart = occurrenceStart;
 		this._actionRecordSelected = true;
 		this._notifyOutputChanged();
 	}
 
-	public onClickSelectedSlot(start: Date, end: Date, resourceId: string)
+	public onRecordsSelected(selectedRecordIds: string)
+	{
+		this._selectedRecordIds = selectedRecordIds;
+		this._notifyOutputChanged();
+	}
+
+	public onClickSelectedSlot(start: Date, end: Date, resourceId: string, allDay: boolean)
 	{
 		this._selectedSlotStart = start;
 		this._selectedSlotEnd = end;
 		this._selectedSlotResourceId = resourceId || "";
+		this._selectedSlotAllDay = allDay;
 		this._actionSlotSelected = true;	
 		this._notifyOutputChanged();
 	}
 
+	public onRecordMoved(recordId: string, start: Date, end: Date, resourceId: string)
+	{
+		this._movedRecordId = recordId;
+		this._movedRecordStart = start;
+		this._movedRecordEnd = end;
+		this._movedRecordResourceId = resourceId || "";
+		this._actionRecordMoved = true;
+		this._notifyOutputChanged();
+	}
+
+	public onDuplicateRequested(duplicateRequest: string)
+	{
+		this._duplicateRequest = duplicateRequest;
+		this._actionDuplicateRequested = true;
+		this._notifyOutputChanged();
+	}
+
+	public onIcsExported(icsContent: string)
+	{
+		this._icsContent = icsContent;
+		this._notifyOutputChanged();
+	}
+
+	public onPdfExported(pdfContent: string)
+	{
+		this._pdfContent = pdfContent;
+		this._notifyOutputChanged();
+	}
+
+	public onConflictsDetected(conflictingRecordIds: string)
+	{
+		//only notify when the conflicts change so the OnChange event does not fire on every render
+		if (this._conflictingRecordIds === conflictingRecordIds) return;
+		this._conflictingRecordIds = conflictingRecordIds;
+		this._notifyOutputChanged();
+	}
+
+	public onEventsFiltered(filteredRecordIds: string)
+	{
+		//only notify when the filtered records change so the OnChange event does not fire on every render
+		if (this._filteredRecordIds === filteredRecordIds) return;
+		this._filteredRecordIds = filteredRecordIds;
+		this._notifyOutputChanged();
+	}
+
 	public onDateChange(date: Date, rangeStart: Date, rangeEnd: Date, view: string)
 	{
 		this._currentCalendarDate = date;
@@ -157,6 +283,45 @@ export class Calendar implements ComponentFramework.StandardControl<IInputs, IOu
 		this._currentRangeEnd = rangeEnd;
 		this._currentCalendarView = view;
 		this._notifyOutputChanged();
+
+		if (CalendarUtils.canLoadVisibleRange(this._props.pcfContext)) {
+			this.loadRange(rangeStart, rangeEnd);
+		}
+	}
+
+	//MODEL ONLY: filters the data set to the records in the range.  Ranges that have already been loaded
+	// are cached by extending the loaded range so navigating back and forth does not reload the records.
+	private loadRange(rangeStart: Date, rangeEnd: Date)
+	{
+		//pad the range by a day so all day and date only records on the edges are included
+		const dayMs = 86400000;
+		const start = new Date(rangeStart.getTime() - dayMs);
+		const end = new Date(rangeEnd.getTime() + dayMs);
+
+		if (this._loadedRangeStart && this._loadedRangeEnd &&
+			start >= this._loadedRangeStart && end <= this._loadedRangeEnd) {
+			return;
+		}
+
+		let newStart = start;
+		let newEnd = end;
+		if (this._loadedRangeStart && this._loadedRangeEnd &&
+			start <= this._loadedRangeEnd && end >= this._loadedRangeStart) {
+			const unionStart = start < this._loadedRangeStart ? start : this._loadedRangeStart;
+			const unionEnd = end > this._loadedRangeEnd ? end : this._loadedRangeEnd;
+			if ((unionEnd.getTime() - unionStart.getTime()) / dayMs <= MAX_LOADED_RANGE_DAYS) {
+				newStart = unionStart;
+				newEnd = unionEnd;
+			}
+		}
+
+		this._loadedRangeStart = newStart;
+		this._loadedRangeEnd = newEnd;
+
+		const dataSet = this._props.pcfContext.parameters.calendarDataSet;
+		dataSet.filtering.clearFilter();
+		dataSet.filtering.setFilter(CalendarUtils.getRangeFilter(this._props.pcfContext, newStart, newEnd));
+		dataSet.refresh();
 	}
 
 	/** 
@@ -174,12 +339,22 @@ export class Calendar implements ComponentFramework.StandardControl<IInputs, IOu
 			currentCalendarDate: this._currentCalendarDate,
 			currentCalendarView: this._currentCalendarView,
 			actionRecordSelected : this._actionRecordSelected,
-			actionSlotSelected : this._actionSlotSelected			
+			selectedRecordIds: this._selectedRecordIds,
+			actionSlotSelected : this._actionSlotSelected,
+			actionRecordMoved : this._actionRecordMoved,
+			actionDuplicateRequested : this._actionDuplicateRequested,
+			icsContent: this._icsContent,
+			pdfContent: this._pdfContent,
+			conflictingRecordIds: this._conflictingRecordIds,
+			filteredRecordIds: this._filteredRecordIds,
+			exportIcsTrigger: false,
+			exportPdfTrigger: false
 		}
 		
 		if (this._actionRecordSelected){
 			notifyAgain = true;
 			output.selectedRecordId = this._selectedRecordId;
+			output.selectedOccurrenceStart = this._selectedOccurrenceStart;
 			this._actionRecordSelected = false;
 		}
 		
@@ -191,8 +366,26 @@ export class Calendar implements ComponentFramework.StandardControl<IInputs, IOu
 			output.selectedSlotStart = this._selectedSlotStart;
 			output.selectedSlotEnd = this._selectedSlotEnd;
 			output.selectedSlotResourceId = this._selectedSlotResourceId;
+			output.selectedSlotAllDay = this._selectedSlotAllDay;
 			this._actionSlotSelected = false;
 		}
+
+		if (this._actionRecordMoved)
+		{
+			notifyAgain = true;
+			output.movedRecordId = this._movedRecordId;
+			output.movedRecordStart = this._movedRecordStart;
+			output.movedRecordEnd = this._movedRecordEnd;
+			output.movedRecordResourceId = this._movedRecordResourceId;
+			this._actionRecordMoved = false;
+		}
+
+		if (this._actionDuplicateRequested)
+		{
+			notifyAgain = true;
+			output.duplicateRequest = this._duplicateRequest;
+			this._actionDuplicateRequested = false;
+		}
 		
 		if (notifyAgain){
 			this._notifyOutputChanged();
@@ -1,11 +1,12 @@
 import * as React from "react";
 import * as Color from "color";
+import { eventRenderer } from "./eventRenderer";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function agendaEventRenderer({ event }: any, isEventSelectable: boolean, eventDefaultBackgroundColor: any) {
   return (
     <span
-      title={event.title}
+      title={event.templateText || event.title}
       style={{
         cursor: isEventSelectable ? "pointer" : "default",
         overflow: "auto",
@@ -18,7 +19,7 @@ export function agendaEventRenderer({ event }: any, isEventSelectable: boolean,
           : "#000",
       }}
     >
-      {event.title}
+      {eventRenderer({ event, title: event.title })}
     </span>
   );
 }
@@ -0,0 +1,59 @@
+import * as React from "react";
+import { IEvent } from "../types";
+
+export interface EventContentExtras {
+  onContextMenu?: (event: IEvent, e: React.MouseEvent<HTMLElement>) => void;
+  //the label read by screen readers and if the events in the month view can be reached with tab
+  getAriaLabel?: (event: IEvent) => string;
+  focusable?: boolean;
+}
+
+// The event renderer is passed to react-big-calendar as a component so the handlers are provided through context
+export const EventContentContext = React.createContext<EventContentExtras>({});
+
+function EventContent({ event, title }: { event: IEvent; title?: React.ReactNode }) {
+  const { onContextMenu, getAriaLabel, focusable } = React.useContext(EventContentContext);
+  const contentRef = React.useRef<HTMLElement>(null);
+  const ariaLabel = getAriaLabel?.(event);
+
+  // the element of the event is rendered by react-big-calendar so the attributes are set on it directly,
+  // events in the day and week views can already be focused
+  React.useLayoutEffect(() => {
+    const eventElement = contentRef.current?.closest<HTMLElement>(".rbc-event");
+    if (!eventElement) return;
+    if (ariaLabel) {
+      eventElement.setAttribute("aria-label", ariaLabel);
+    } else {
+      eventElement.removeAttribute("aria-label");
+    }
+    if (focusable && !eventElement.hasAttribute("tabindex")) {
+      eventElement.setAttribute("tabindex", "0");
+      eventElement.setAttribute("role", "button");
+    }
+  }, [ariaLabel, focusable]);
+
+  const _handleContextMenu = onContextMenu
+    ? (e: React.MouseEvent<HTMLElement>) => onContextMenu(event, e)
+    : undefined;
+
+  if (event.templateHtml) {
+    return (
+      <div
+        ref={contentRef as React.RefObject<HTMLDivElement>}
+        className="rbc-event-template"
+        onContextMenu={_handleContextMenu}
+        dangerouslySetInnerHTML={{ __html: event.templateHtml }}
+      />
+    );
+  }
+  return (
+    <span ref={contentRef} onContextMenu={_handleContextMenu}>
+      {title}
+    </span>
+  );
+}
+
+// Displays the Event Template when there is one, the html has already been sanitized and the values escaped
+export function eventRenderer({ event, title }: { event: IEvent; title?: React.ReactNode }) {
+  return <EventContent event={event} title={title} />;
+}
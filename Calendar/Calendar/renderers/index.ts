@@ -1,4 +1,5 @@
 export * from "./resourceHeaderRenderer";
 export * from "./agendaEventRenderer"
 export * from "./timeGutterHeaderRenderer"
-export * from "./timeSlotWrapperRenderer"
\ No newline at end of file
+export * from "./timeSlotWrapperRenderer"
+export * from "./eventRenderer"
\ No newline at end of file
@@ -1,12 +1,38 @@
 import * as React from "react";
+import * as CalendarUtils from "../utils";
 
 // Modularized time slot wrapper renderer for react-big-calendar
 // Encapsulate minHeight logic here, allowing for dynamic calculation if needed
-export function timeSlotWrapperRenderer(props: { children?: React.ReactNode; timeslots?: number }) {
-  const { children, timeslots } = props;
+// Slots outside of the resources working hours are shaded with the non working color
+// In the accessibility mode the slots can be focused, only the focused slot is reached with tab
+export function timeSlotWrapperRenderer(props: {
+  children?: React.ReactNode;
+  timeslots?: number;
+  value?: Date;
+  resource?: string | number | null;
+  nonWorkingColor?: string;
+  isWorkingSlot?: (date: Date, resourceId?: string | number) => boolean;
+  focusedSlotKey?: string;
+  getSlotLabel?: (date: Date, resourceId?: string | number | null) => string;
+}) {
+  const { children, timeslots, value, resource, nonWorkingColor, isWorkingSlot, focusedSlotKey, getSlotLabel } =
+    props;
   let minHeight = 40;
   if (typeof timeslots === "number") {
     minHeight = timeslots === 1 ? 40 : 20;
   }
-  return <div style={{ minHeight }}>{children}</div>;
+  const isNonWorking =
+    value && isWorkingSlot ? !isWorkingSlot(value, resource ?? undefined) : false;
+  const slotAttributes =
+    value && getSlotLabel
+      ? CalendarUtils.getSlotAttributes(value, resource, focusedSlotKey, getSlotLabel(value, resource))
+      : {};
+  return (
+    <div
+      {...slotAttributes}
+      style={{ minHeight, backgroundColor: isNonWorking ? nonWorkingColor : undefined }}
+    >
+      {children}
+    </div>
+  );
 }
@@ -0,0 +1,10 @@
+import { IEvent } from "./IEvent";
+import { Keys } from "./Keys";
+import { Resource } from "./Resource";
+
+//the data the calendar is currently rendering along with the keys used to build it.
+export interface CalendarData {
+  resources: Resource[] | undefined;
+  events: IEvent[];
+  keys: Keys | undefined;
+}
@@ -0,0 +1,10 @@
+import { EventFilter } from "./EventFilter";
+
+//the view, date, filter and scroll position remembered for each user between sessions.
+export interface CalendarState {
+  view?: string;
+  date?: string;
+  filter?: EventFilter;
+  //the hour at the top of the day and week views, including the fraction of the hour
+  scrollHour?: number;
+}
@@ -0,0 +1,6 @@
+//a choice or status option used to color events and build the legend.
+export interface EventCategory {
+  key: string;
+  label: string;
+  color: string;
+}
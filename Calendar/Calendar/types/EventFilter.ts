@@ -0,0 +1,6 @@
+//the search text, resources and color categories selected in the filter bar, empty values do not filter.
+export interface EventFilter {
+  text: string;
+  resourceIds: string[];
+  categories: string[];
+}
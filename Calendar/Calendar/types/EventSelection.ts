@@ -0,0 +1,3 @@
+//how a click changes the selected events, a plain click selects only that event, ctrl toggles it and
+// shift selects the events between it and the last event clicked.
+export type EventSelectionMode = "single" | "toggle" | "range";
@@ -0,0 +1,5 @@
+//the time slot or day that has the keyboard focus in the accessibility mode.
+export interface FocusedSlot {
+  date: Date;
+  resourceId?: string;
+}
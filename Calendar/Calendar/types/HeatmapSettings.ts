@@ -0,0 +1,14 @@
+//the month view heatmap shades each day by the number of events or the hours booked, a day uses the
+// color of the highest threshold it reaches. days with more events than the limit show a summary instead.
+export interface HeatmapSettings {
+  mode: "off" | "count" | "hours";
+  thresholds: number[];
+  colors: string[];
+  eventLimit: number;
+}
+
+//the number of events and the hours booked on a day.
+export interface DayTotals {
+  count: number;
+  hours: number;
+}
@@ -4,5 +4,22 @@ import { Event } from "react-big-calendar";
 export interface IEvent extends Event {
   id?: string;
   color?: string;
+  //choice or status value the color was taken from, used to filter the event from the legend.
+  category?: string;
   description?: string;
+  //iCalendar RRULE (and optional EXDATE lines) used to expand the event into occurrences.
+  recurrenceRule?: string;
+  //start of the record the occurrence was expanded from, only set on occurrences.
+  seriesStart?: Date;
+  //titles of the events on the same resource that overlap with this event.
+  conflictsWith?: string[];
+  //holidays and blackout dates are displayed behind the events and cannot be selected or moved.
+  background?: boolean;
+  //events loaded from ICS content, they do not have a record that can be opened, copied or updated.
+  ics?: boolean;
+  //summary of a busy day in the month view heatmap, selecting it opens the day.
+  summary?: boolean;
+  //the Event Template resolved with the values of the record as sanitized html and as text for the tooltip.
+  templateHtml?: string;
+  templateText?: string;
 }
@@ -1,3 +1,5 @@
+import { EventCategory } from "./EventCategory";
+
 export interface Keys {
   id: string;
   name: string;
@@ -5,9 +7,18 @@ export interface Keys {
   start: string;
   end: string;
   eventColor?: string;
+  eventColorCategories?: EventCategory[];
+  recurrenceRule?: string;
+  allDay?: string;
+  dateOnly?: boolean;
+  timeZoneIndependent?: boolean;
   resource?: string;
   resourceName?: string;
   resourceId?: string;
   resourceEtn?: string;
   resourceGetAllInModel?: boolean;
+  resourceWorkStart?: string;
+  resourceWorkEnd?: string;
+  //sanitized html of the Event Template property with the {fieldname} tokens still to be replaced
+  eventTemplate?: string;
 }
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { IEvent } from "./IEvent";
+
+//the point on the screen the quick create and quick view popovers are shown next to.
+export interface PopoverPosition {
+  x: number;
+  y: number;
+}
+
+//the popover currently open, either creating a record for a slot or viewing an event in a model app,
+// or the context menu of an event and duplicating it to another date or resource.
+export type QuickPopover =
+  | {
+      type: "create";
+      start: Date;
+      end: Date;
+      resourceId?: string;
+      allDay: boolean;
+      position: PopoverPosition;
+    }
+  | {
+      type: "view" | "menu" | "duplicate";
+      event: IEvent;
+      position: PopoverPosition;
+    };
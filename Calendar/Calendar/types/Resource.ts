@@ -1,5 +1,8 @@
+import { WorkingHours } from "./WorkingHours";
+
 export interface Resource {
   id: string;
   title: string;
   etn?: string; // Entity type name, optional
+  workingHours?: WorkingHours;
 }
\ No newline at end of file
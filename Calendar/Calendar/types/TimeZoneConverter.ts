@@ -0,0 +1,5 @@
+//converts dates between the actual point in time and the wall clock time shown on the calendar.
+export interface TimeZoneConverter {
+  toDisplayTime: (date: Date) => Date;
+  fromDisplayTime: (date: Date) => Date;
+}
@@ -0,0 +1,6 @@
+//working hours of a resource, start and end are minutes after midnight and days are 0 (Sunday) to 6 (Saturday).
+export interface WorkingHours {
+  start: number;
+  end: number;
+  days: number[];
+}
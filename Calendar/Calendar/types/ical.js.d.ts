@@ -0,0 +1,52 @@
+//ical.js 2.0 does not ship typings and the typings of later versions do not compile with TypeScript 4.9,
+// so only the parts used to read ICS documents are declared here.
+declare module "ical.js" {
+  namespace ICAL {
+    class Timezone {
+      tzid: string;
+    }
+
+    class Time {
+      isDate: boolean;
+      zone?: Timezone;
+      toJSDate(): Date;
+    }
+
+    class Component {
+      constructor(jCal: unknown[] | string, parent?: Component);
+      getAllSubcomponents(name?: string): Component[];
+      getFirstPropertyValue(name?: string): unknown;
+      hasProperty(name?: string): boolean;
+    }
+
+    class RecurExpansion {
+      next(): Time | undefined;
+    }
+
+    class Event {
+      constructor(component?: Component, options?: { strictExceptions?: boolean; exceptions?: Component[] });
+      uid: string;
+      summary: string;
+      description: string;
+      startDate: Time;
+      endDate: Time;
+      isRecurring(): boolean;
+      iterator(startTime?: Time): RecurExpansion;
+      getOccurrenceDetails(occurrence: Time): {
+        recurrenceId: Time;
+        item: Event;
+        startDate: Time;
+        endDate: Time;
+      };
+    }
+
+    function parse(input: string): unknown[];
+
+    const TimezoneService: {
+      has(tzid: string): boolean;
+      register(timezone: Component | Timezone, name?: string): void;
+    };
+  }
+
+  export default ICAL;
+}
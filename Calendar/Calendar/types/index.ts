@@ -1,3 +1,15 @@
 export * from "./IEvent"
 export * from "./Keys"
 export * from "./Resource"
+export * from "./CalendarData"
+
+export * from "./TimeZoneConverter"
+export * from "./EventCategory"
+export * from "./WorkingHours"
+export * from "./QuickPopover"
+
+export * from "./EventFilter"
+export * from "./EventSelection"
+export * from "./HeatmapSettings"
+export * from "./FocusedSlot"
+export * from "./CalendarState"
\ No newline at end of file
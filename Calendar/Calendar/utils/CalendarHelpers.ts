@@ -1,10 +1,12 @@
 import { IInputs } from "../generated/ManifestTypes";
 import * as moment from "moment";
-import { View, ViewsProps, DateLocalizer, ViewProps } from "react-big-calendar";
+import { View, ViewsProps, DateLocalizer, ViewProps, SlotInfo } from "react-big-calendar";
 import * as lcid from "lcid";
 import CustomWorkWeek from "../components/WorkWeek";
+import Timeline from "../components/Timeline";
+import Year from "../components/Year";
 import * as Constants from "./Constants"
-import { Resource } from "../types";
+import { Resource, PopoverPosition } from "../types";
 
 //format the date/time so that it can be passed as a parameter to a Dynamics form
 export function formatDateAsParameterString(date: Date) {
@@ -25,6 +27,41 @@ export function formatDateAsParameterString(date: Date) {
   );
 }
 
+//format the date as yyyy-mm-dd so it can be saved to a date only field
+export function formatDateOnlyString(date: Date) {
+  return (
+    date.getFullYear() +
+    "-" +
+    (date.getMonth() + 1).toString().padStart(2, "0") +
+    "-" +
+    date.getDate().toString().padStart(2, "0")
+  );
+}
+
+//slots selected in the all day header or month view start and end at midnight
+export function isAllDaySlot(start: Date, end: Date): boolean {
+  return (
+    moment(start).isSame(moment(start).startOf("day")) &&
+    moment(end).isSame(moment(end).startOf("day")) &&
+    moment(end).isAfter(start)
+  );
+}
+
+//gets the screen position of a selected slot, clicks provide the mouse position while
+// a selection provides its bounds relative to the page
+export function getSlotPosition(slotInfo: Pick<SlotInfo, "box" | "bounds">): PopoverPosition {
+  if (slotInfo.box) {
+    return { x: slotInfo.box.clientX, y: slotInfo.box.clientY };
+  }
+  if (slotInfo.bounds) {
+    return {
+      x: slotInfo.bounds.right - window.scrollX,
+      y: slotInfo.bounds.top - window.scrollY,
+    };
+  }
+  return { x: window.innerWidth / 2, y: window.innerHeight / 2 };
+}
+
 export function getCalendarView(
   calendarViews: View[],
   viewName: string
@@ -55,6 +92,11 @@ export function getCalendarViews(
         selectedViews.work_week.localizer = localizer;
         selectedViews.work_week.includedDays =
           getWorkWeekIncludedDays(pcfContext);
+      } else if (view === "timeline") {
+        selectedViews.timeline = Timeline;
+        selectedViews.timeline.days = getTimelineDays(pcfContext);
+      } else if (view === "year") {
+        selectedViews.year = Year;
       } else {
         selectedViews[view] = true;
       }
@@ -80,6 +122,14 @@ export function getWorkWeekIncludedDays(
   }
 }
 
+//number of days shown across the timeline view
+export function getTimelineDays(
+  pcfContext: ComponentFramework.Context<IInputs>
+): number {
+  const days = pcfContext.parameters.calendarTimelineDays?.raw;
+  return days && days > 0 ? days : Constants.DEFAULT_TIMELINE_DAYS;
+}
+
 export function getCurrentRange(
   date: Date,
   view: string,
@@ -99,6 +149,12 @@ export function getCurrentRange(
   } else if (view === "month") {
     start = moment(date).startOf("month").startOf("week").toDate();
     end = moment(date).endOf("month").endOf("week").toDate();
+  } else if (view === "timeline") {
+    start = moment(date).startOf("day").toDate();
+    end = moment(date).add(Timeline.days - 1, "day").endOf("day").toDate();
+  } else if (view === "year") {
+    start = moment(date).startOf("year").toDate();
+    end = moment(date).endOf("year").toDate();
   } else if (view === "agenda") {
     start = moment(date).startOf("day").toDate();
     end = moment(date).endOf("day").add(1, "month").toDate();
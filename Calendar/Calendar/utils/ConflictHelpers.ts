@@ -0,0 +1,61 @@
+import { IEvent } from "../types";
+
+//occurrences of a recurring record share its id so the start is needed to tell them apart.
+function getEventKey(event: IEvent): string {
+  return `${event.id ?? ""}_${(event.start as Date).getTime()}`;
+}
+
+//finds the events that overlap with another event on the same resource. the events must already be
+// expanded into their occurrences. events are returned with the titles of the events they conflict with
+// along with the record id pairs of each conflict. events without a resource are not checked, and all day
+// events are only checked against other all day events so they do not conflict with every event of the day.
+export function detectEventConflicts(events: IEvent[]): {
+  events: IEvent[];
+  conflicts: string[][];
+} {
+  const conflicts: string[][] = [];
+  const pairKeys = new Set<string>();
+  const conflictsWith = new Map<string, string[]>();
+
+  const groups = new Map<string, IEvent[]>();
+  events
+    .filter((e) => e.start && e.end && !e.background && e.resource != null)
+    .forEach((e) => {
+      const key = `${e.resource}_${!!e.allDay}`;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(e);
+    });
+
+  groups.forEach((groupEvents) => {
+    const sorted = [...groupEvents].sort(
+      (a, b) => (a.start as Date).getTime() - (b.start as Date).getTime()
+    );
+    let active: IEvent[] = [];
+    sorted.forEach((event) => {
+      //events that ended before this one started can no longer overlap
+      active = active.filter((a) => (a.end as Date) > (event.start as Date));
+      active.forEach((a) => {
+        const aKey = getEventKey(a);
+        const eventKey = getEventKey(event);
+        //the same records can overlap on more than one occurrence but the pair is only returned once
+        const pairKey = `${a.id}|${event.id}`;
+        if (!pairKeys.has(pairKey)) {
+          pairKeys.add(pairKey);
+          conflicts.push([`${a.id}`, `${event.id}`]);
+        }
+        conflictsWith.set(aKey, [...(conflictsWith.get(aKey) || []), `${event.title}`]);
+        conflictsWith.set(eventKey, [...(conflictsWith.get(eventKey) || []), `${a.title}`]);
+      });
+      active.push(event);
+    });
+  });
+
+  return {
+    events: events.map((e) =>
+      e.start && conflictsWith.has(getEventKey(e))
+        ? { ...e, conflictsWith: conflictsWith.get(getEventKey(e)) }
+        : e
+    ),
+    conflicts: conflicts,
+  };
+}
@@ -1,6 +1,6 @@
 import { DayLayoutAlgorithm } from "react-big-calendar";
 
-export const CALENDAR_VIEWS = ["month", "week", "work_week", "day", "agenda"] as string[];
+export const CALENDAR_VIEWS = ["month", "week", "work_week", "day", "agenda", "timeline", "year"] as string[];
 
 export const DEFAULT_EVENT_COLOR = "#3174ad";
 export const DEFAULT_TODAY_BACKGROUND_COLOR = "#eaf6ff";
@@ -8,6 +8,8 @@ export const DEFAULT_TEXT_COLOR = "#666666";
 export const DEFAULT_BORDER_COLOR = "#dddddd";
 export const DEFAULT_TIMEBAR_BACKGROUND_COLOR = "#ffffff";
 export const DEFAULT_WEEKEND_BACKGROUND_COLOR = "#00000000";
+export const DEFAULT_NON_WORKING_BACKGROUND_COLOR = "#0000000f";
+export const DEFAULT_HOLIDAY_BACKGROUND_COLOR = "#a19f9d40";
 
 export const DEFAULT_MIN_HOUR = 0;
 export const DEFAULT_MAX_HOUR = 23;
@@ -15,6 +17,29 @@ export const DEFAULT_STEP = 30; // 30 minutes per time slot
 export const DEFAULT_TIMESLOTS = 2; // Two slots per hour
 export const DEFAULT_LAYOUT_ALGORITHM: DayLayoutAlgorithm = "overlap";
 export const VALID_KEYS = ["Enter", " "];
+export const COPY_KEY = "c";
+export const PASTE_KEY = "v";
+export const ARROW_KEYS = ["ArrowLeft", "ArrowRight", "ArrowUp", "ArrowDown"];
+//the number of days the agenda view moves when navigating, the react-big-calendar default
+export const AGENDA_LENGTH = 30;
 export const DEFAULT_SELECTABLE = true;
+export const SELECTABLE_WORKING_HOURS = "workinghours";
 export const DEFAULT_EVENT_SELECTABLE = true;
-export const DEFAULT_POPUP = true;
\ No newline at end of file
+export const DEFAULT_EVENT_DRAGGABLE = false;
+export const DEFAULT_DETECT_CONFLICTS = false;
+export const DEFAULT_HOLIDAY_BLOCK_SELECTION = false;
+export const DEFAULT_POPUP = true;
+export const DEFAULT_SHOW_EXPORT = false;
+export const DEFAULT_SHOW_PRINT = false;
+export const DEFAULT_SHOW_FILTER = false;
+export const DEFAULT_ACCESSIBILITY_MODE = false;
+export const DEFAULT_REMEMBER_STATE = true;
+export const STATE_STORAGE_PREFIX = "pcf-calendar";
+export const DEFAULT_ICS_MODE = "append";
+export const DEFAULT_RECORD_OPEN_MODE = "form";
+export const RECORD_OPEN_MODE_POPOVER = "popover";
+export const USER_TIME_ZONE = "user";
+export const DEFAULT_HEATMAP_MODE = "off";
+export const DEFAULT_HEATMAP_THRESHOLDS = "2,4,6";
+export const DEFAULT_HEATMAP_COLORS = "#deecf9,#71afe5,#2b88d8";
+export const DEFAULT_TIMELINE_DAYS = 7;
\ No newline at end of file
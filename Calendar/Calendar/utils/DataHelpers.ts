@@ -2,11 +2,51 @@ import {IInputs} from "../generated/ManifestTypes"
 import {Keys} from "../types/Keys"
 import {Resource} from "../types/Resource"
 import {IEvent} from "../types/IEvent"
+import {EventCategory} from "../types/EventCategory"
+import {formatDateOnlyString} from "./CalendarHelpers"
+import {createWorkingHours} from "./WorkingHoursHelpers"
+import {compileEventTemplate, getTemplateText, resolveEventTemplate} from "./TemplateHelpers"
+import {getNavigationPropertyName} from "./MetadataHelpers"
+import {
+  formatTimeZoneIndependentString,
+  getTimeZoneConverter,
+  getTimeZoneIndependentValue,
+} from "./TimeZoneHelpers"
 
 import DataSetInterfaces = ComponentFramework.PropertyHelper.DataSetApi;
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const isHexColor = require("is-hexcolor");
 
+//ConditionOperator and FilterOperator values used by the data set filtering
+const CONDITION_OPERATOR_GREATER_EQUAL = 4;
+const CONDITION_OPERATOR_LESS_EQUAL = 5;
+//NotNull is supported by the data set but is missing from the typings
+const CONDITION_OPERATOR_NOT_NULL = 13 as DataSetInterfaces.Types.ConditionOperator;
+const FILTER_OPERATOR_AND = 0;
+const FILTER_OPERATOR_OR = 1;
+
+//system fields that are set by Dataverse and cannot be copied onto a new record
+const NOT_COPIED_FIELDS = [
+  "statecode",
+  "statuscode",
+  "createdon",
+  "createdby",
+  "createdonbehalfby",
+  "modifiedon",
+  "modifiedby",
+  "modifiedonbehalfby",
+  "owningbusinessunit",
+  "owningteam",
+  "owninguser",
+  "versionnumber",
+  "overriddencreatedon",
+  "importsequencenumber",
+];
+
+//DateTimeBehavior values from the attribute metadata
+const DATE_BEHAVIOR_DATE_ONLY = 2;
+const DATE_BEHAVIOR_TIME_ZONE_INDEPENDENT = 3;
+
 //gets all the fields names and other keys will will need while processing the data
 export async function getKeys(
   pcfContext: ComponentFramework.Context<IInputs>
@@ -17,6 +57,9 @@ export async function getKeys(
   const resource = params.resourceField.raw
     ? getFieldName(dataSet, params.resourceField.raw)
     : "";
+  const start = params.eventFieldStart.raw
+    ? getFieldName(dataSet, params.eventFieldStart.raw)
+    : "";
   const resourceGetAllInModel =
     params.resourceGetAllInModel.raw?.toLowerCase() === "true" ? true : false;
   let resourceEtn = "";
@@ -45,7 +88,26 @@ export async function getKeys(
       : resourceMeta.PrimaryNameAttribute;
     resourceId = resourceMeta.PrimaryIdAttribute;
   }
-  
+
+  //time zone independent and date only behaviors are only available from the column metadata
+  let dateBehavior = 0;
+  if (pcfContext.mode.allocatedHeight === -1 && start && start.indexOf(".") === -1) {
+    const startMeta = await pcfContext.utils.getEntityMetadata(
+      dataSet.getTargetEntityType(),
+      [start]
+    );
+    dateBehavior = startMeta.Attributes.getByName(start)?.Behavior || 0;
+  }
+
+  const eventColor = params.eventColor.raw
+    ? getFieldName(dataSet, params.eventColor.raw)
+    : "";
+  //choice and status columns get their colors from the option metadata
+  const eventColorCategories =
+    pcfContext.mode.allocatedHeight === -1 && eventColor && eventColor.indexOf(".") === -1
+      ? await getEventColorCategories(pcfContext, eventColor)
+      : [];
+
   return {
     id: params.eventId.raw ? getFieldName(dataSet, params.eventId.raw) : "",
     name: params.eventFieldName.raw
@@ -54,23 +116,63 @@ export async function getKeys(
     description: params.eventFieldDescription && params.eventFieldDescription.raw
       ? getFieldName(dataSet, params.eventFieldDescription.raw)
       : "",
-    start: params.eventFieldStart.raw
-      ? getFieldName(dataSet, params.eventFieldStart.raw)
-      : "",
+    start: start,
     end: params.eventFieldEnd.raw
       ? getFieldName(dataSet, params.eventFieldEnd.raw)
       : "",
-    eventColor: params.eventColor.raw
-      ? getFieldName(dataSet, params.eventColor.raw)
+    eventColor: eventColor,
+    eventColorCategories: eventColorCategories,
+    allDay: params.eventAllDay?.raw
+      ? getFieldName(dataSet, params.eventAllDay.raw)
+      : "",
+    //date only columns are always displayed as all day events
+    dateOnly: isDateOnlyColumn(dataSet, start) || dateBehavior === DATE_BEHAVIOR_DATE_ONLY,
+    timeZoneIndependent: dateBehavior === DATE_BEHAVIOR_TIME_ZONE_INDEPENDENT,
+    recurrenceRule: params.eventRecurrenceRule?.raw
+      ? getFieldName(dataSet, params.eventRecurrenceRule.raw)
       : "",
     resource: resource,
     resourceName: resourceName,
     resourceId: resourceId,
     resourceGetAllInModel: resourceGetAllInModel,
     resourceEtn: resourceEtn,
+    resourceWorkStart: params.resourceWorkStartField?.raw || "",
+    resourceWorkEnd: params.resourceWorkEndField?.raw || "",
+    eventTemplate: compileEventTemplate(params.eventTemplate?.raw),
   };
 }
 
+//gets the label and color of each option when the event color field is a choice or status column
+async function getEventColorCategories(
+  pcfContext: ComponentFramework.Context<IInputs>,
+  eventColor: string
+): Promise<EventCategory[]> {
+  const dataSet = pcfContext.parameters.calendarDataSet;
+  const column = dataSet.columns.find((c) => c.name === eventColor);
+  //text columns hold the hex color directly
+  if (!column || column.dataType.startsWith("SingleLine") || column.dataType.startsWith("Multiple")) {
+    return [];
+  }
+
+  const eventMeta = await pcfContext.utils.getEntityMetadata(dataSet.getTargetEntityType(), [eventColor]);
+  const attribute = eventMeta.Attributes.getByName(eventColor);
+  const optionSet = attribute?.attributeDescriptor?.OptionSet || attribute?.OptionSet;
+  if (!optionSet) return [];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const options: any[] = Array.isArray(optionSet) ? optionSet : Object.values(optionSet);
+  return options
+    .filter((o) => o && o.Value !== undefined)
+    .map((o) => ({
+      key: String(o.Value),
+      label:
+        typeof o.Label === "string"
+          ? o.Label
+          : o.Label?.UserLocalizedLabel?.Label || String(o.Value),
+      color: o.Color && isHexColor(o.Color) ? o.Color : "",
+    }));
+}
+
 //gets fields name from the datsource columns and provides the necessary alias information for
 //related entities.
 export function getFieldName(
@@ -90,6 +192,112 @@ export function getFieldName(
   return linkedFieldParts.join(".");
 }
 
+//checks the data set columns to see if the field only holds a date and not a time
+export function isDateOnlyColumn(
+  dataSet: ComponentFramework.PropertyTypes.DataSet,
+  fieldName: string
+): boolean {
+  if (!fieldName) return false;
+  const column = dataSet.columns.find((c) => c.name === fieldName);
+  return column?.dataType === "DateAndTime.DateOnly";
+}
+
+//gets the value of a field for an event template token, the formatted value is used when there is one so
+// choices, lookups, dates and numbers are displayed the same way as in the app.
+export function getFormattedFieldValue(
+  dataSet: ComponentFramework.PropertyTypes.DataSet,
+  record: DataSetInterfaces.EntityRecord,
+  fieldName: string
+): string {
+  const field = getFieldName(dataSet, fieldName);
+  const formattedValue = record.getFormattedValue(field);
+  if (formattedValue) return formattedValue;
+
+  const value = record.getValue(field);
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toLocaleString();
+  if (typeof value === "object" && "name" in value) {
+    return (value as ComponentFramework.EntityReference).name || "";
+  }
+  return String(value);
+}
+
+//date only values can come back as a date string so create the date from its parts to
+// make sure it is not shifted by the users time zone.
+export function getDateOnlyValue(value: unknown): Date {
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const [year, month, day] = value.substring(0, 10).split("-").map(Number);
+    return new Date(year, month - 1, day);
+  }
+  const date = new Date(value as number);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+//two option values can be returned as a boolean, number or string depending on the app type
+export function getBooleanValue(value: unknown): boolean {
+  return (
+    value === true ||
+    value === 1 ||
+    (typeof value === "string" && ["true", "1", "yes"].includes(value.toLowerCase()))
+  );
+}
+
+//the visible range can only be loaded in model apps when the start and end fields are on the event entity,
+// canvas apps filter the records through the Items property instead.
+export function canLoadVisibleRange(
+  pcfContext: ComponentFramework.Context<IInputs>
+): boolean {
+  const start = pcfContext.parameters.eventFieldStart.raw || "";
+  const end = pcfContext.parameters.eventFieldEnd.raw || "";
+  return (
+    pcfContext.mode.allocatedHeight === -1 &&
+    !!start &&
+    !!end &&
+    start.indexOf(".") === -1 &&
+    end.indexOf(".") === -1
+  );
+}
+
+//creates a data set filter for the events that overlap with the range. recurring records are loaded
+// when they start before the end of the range since their occurrences can fall inside it.
+export function getRangeFilter(
+  pcfContext: ComponentFramework.Context<IInputs>,
+  rangeStart: Date,
+  rangeEnd: Date
+): DataSetInterfaces.FilterExpression {
+  const params = pcfContext.parameters;
+  const start = params.eventFieldStart.raw || "";
+  const end = params.eventFieldEnd.raw || "";
+  const recurrenceRule = params.eventRecurrenceRule?.raw || "";
+
+  const overlapFilter: DataSetInterfaces.FilterExpression = {
+    filterOperator: FILTER_OPERATOR_AND,
+    conditions: [
+      { attributeName: start, conditionOperator: CONDITION_OPERATOR_LESS_EQUAL, value: rangeEnd.toISOString() },
+      { attributeName: end, conditionOperator: CONDITION_OPERATOR_GREATER_EQUAL, value: rangeStart.toISOString() },
+    ],
+  };
+
+  if (!recurrenceRule || recurrenceRule.indexOf(".") !== -1) {
+    return overlapFilter;
+  }
+
+  return {
+    filterOperator: FILTER_OPERATOR_OR,
+    conditions: [],
+    filters: [
+      overlapFilter,
+      {
+        filterOperator: FILTER_OPERATOR_AND,
+        conditions: [
+          { attributeName: start, conditionOperator: CONDITION_OPERATOR_LESS_EQUAL, value: rangeEnd.toISOString() },
+          { attributeName: recurrenceRule, conditionOperator: CONDITION_OPERATOR_NOT_NULL, value: "" },
+        ],
+      },
+    ],
+  };
+}
+
 //returns all the calendar data including the events and resources
 export async function getCalendarData(
     pcfContext: ComponentFramework.Context<IInputs>,
@@ -171,11 +379,16 @@ export async function getCalendarData(
     const map = new Map();
     for (const item of resources) {
       if (!map.has(item.id)) {
-        map.set(item.id, true);
-        distinctResources.push({
+        const distinctResource: Resource = {
           id: item.id,
           title: item.title || "",
-        });
+        };
+        map.set(item.id, distinctResource);
+        distinctResources.push(distinctResource);
+      }
+      //working hours are only returned when all the resources are retrieved
+      if (item.workingHours) {
+        map.get(item.id).workingHours = item.workingHours;
       }
     }
   
@@ -195,7 +408,11 @@ export async function getCalendarData(
       keys.resourceName.indexOf(".") === -1
         ? keys.resourceName
         : keys.resourceName.split(".")[1];
-    const options = keys.resourceName ? `?$select=${resourceName}` : undefined;
+    //include the working hours fields when they have been provided
+    const selectFields = [resourceName, keys.resourceWorkStart, keys.resourceWorkEnd].filter(
+      (f) => !!f
+    );
+    const options = keys.resourceName ? `?$select=${selectFields.join(",")}` : undefined;
   
     //retrieve all the resources
     const allResources = await pcfContext.webAPI.retrieveMultipleRecords(
@@ -210,6 +427,10 @@ export async function getCalendarData(
         resources.push({
           id: e[keys.resourceId],
           title: e[resourceName],
+          workingHours:
+            keys.resourceWorkStart && keys.resourceWorkEnd
+              ? createWorkingHours(e[keys.resourceWorkStart], e[keys.resourceWorkEnd])
+              : undefined,
         });
       }
     });
@@ -225,6 +446,7 @@ export async function getCalendarData(
     const totalRecordCount = dataSet.sortedRecordIds.length;
   
     const newEvents: IEvent[] = [];
+    const timeZoneConverter = getTimeZoneConverter(pcfContext);
   
   for (let i = 0; i < totalRecordCount; i++) {
     const recordId = dataSet.sortedRecordIds[i];
@@ -251,6 +473,25 @@ export async function getCalendarData(
       title: name,
     };
 
+    if (keys.dateOnly) {
+      //the end date of a date only record is inclusive but the calendar expects it to be exclusive
+      newEvent.start = getDateOnlyValue(start);
+      newEvent.end = getDateOnlyValue(end);
+      newEvent.end.setDate(newEvent.end.getDate() + 1);
+      newEvent.allDay = true;
+    } else {
+      //time zone independent values are shown as saved, everything else is shown in the display time zone
+      newEvent.start = keys.timeZoneIndependent
+        ? getTimeZoneIndependentValue(start)
+        : timeZoneConverter.toDisplayTime(newEvent.start as Date);
+      newEvent.end = keys.timeZoneIndependent
+        ? getTimeZoneIndependentValue(end)
+        : timeZoneConverter.toDisplayTime(newEvent.end as Date);
+      if (keys.allDay) {
+        newEvent.allDay = getBooleanValue(record.getValue(keys.allDay));
+      }
+    }
+
     // Add description if the key is present and value exists
     if (keys.description) {
       const descriptionValue = record.getValue(keys.description);
@@ -261,11 +502,33 @@ export async function getCalendarData(
 
     if (keys.eventColor) {
       const color = record.getValue(keys.eventColor);
-      if (color && isHexColor(color)) {
+      if (keys.eventColorCategories && keys.eventColorCategories.length > 0) {
+        if (color !== null && color !== undefined && color !== "") {
+          newEvent.category = String(color);
+          const category = keys.eventColorCategories.find((c) => c.key === newEvent.category);
+          if (category?.color) {
+            newEvent.color = category.color;
+          }
+        }
+      } else if (color && isHexColor(color)) {
         newEvent.color = color as string;
       }
     }
 
+    if (keys.recurrenceRule) {
+      const recurrenceRule = record.getValue(keys.recurrenceRule);
+      if (recurrenceRule) {
+        newEvent.recurrenceRule = recurrenceRule as string;
+      }
+    }
+
+    if (keys.eventTemplate) {
+      newEvent.templateHtml = resolveEventTemplate(keys.eventTemplate, (fieldName) =>
+        getFormattedFieldValue(dataSet, record, fieldName)
+      );
+      newEvent.templateText = getTemplateText(newEvent.templateHtml);
+    }
+
     if (resources && keys.resource) {
       const resourceId = record.getValue(keys.resource);
       if (resourceId) {
@@ -280,4 +543,319 @@ export async function getCalendarData(
   }
     console.log(`getEvents: newEvents.length: ${newEvents.length}`);
     return newEvents;
-  }
\ No newline at end of file
+  }
+
+  //gets the holidays and blackout dates from the second data set, they are displayed behind the events.
+  // records without an end date or date only records cover the whole of their end day.
+  export function getHolidayEvents(
+    pcfContext: ComponentFramework.Context<IInputs>,
+    holidayColor: string
+  ): IEvent[] {
+    const params = pcfContext.parameters;
+    const dataSet = params.holidayDataSet;
+    if (!dataSet || !params.holidayFieldStart?.raw) return [];
+
+    const nameField = params.holidayFieldName?.raw ? getFieldName(dataSet, params.holidayFieldName.raw) : "";
+    const startField = getFieldName(dataSet, params.holidayFieldStart.raw);
+    const endField = params.holidayFieldEnd?.raw ? getFieldName(dataSet, params.holidayFieldEnd.raw) : "";
+    const dateOnly = isDateOnlyColumn(dataSet, startField);
+    const timeZoneConverter = getTimeZoneConverter(pcfContext);
+
+    const holidays: IEvent[] = [];
+    dataSet.sortedRecordIds.forEach((recordId) => {
+      const record = dataSet.records[recordId] as DataSetInterfaces.EntityRecord;
+      const start = record.getValue(startField);
+      if (!start) return;
+      const end = endField ? record.getValue(endField) : undefined;
+      const title = nameField ? (record.getValue(nameField) as string) || "" : "";
+
+      const holiday = createHolidayEvent(recordId, title, start, end, holidayColor, dateOnly, (date) =>
+        timeZoneConverter.toDisplayTime(new Date(date as number))
+      );
+      if (holiday) holidays.push(holiday);
+    });
+    return holidays;
+  }
+
+  //model apps cannot bind a second data set so the holidays are retrieved from the Holiday Table with the
+  // Web API. date only and time zone independent columns are found from the column metadata.
+  export async function retrieveHolidayEvents(
+    pcfContext: ComponentFramework.Context<IInputs>,
+    holidayColor: string
+  ): Promise<IEvent[]> {
+    const params = pcfContext.parameters;
+    const entityName = params.holidayEntity?.raw || "";
+    const startField = params.holidayFieldStart?.raw || "";
+    if (!entityName || !startField) return [];
+
+    const nameField = params.holidayFieldName?.raw || "";
+    const endField = params.holidayFieldEnd?.raw || "";
+    const entityMeta = await pcfContext.utils.getEntityMetadata(entityName, [startField]);
+    const dateBehavior = entityMeta.Attributes.getByName(startField)?.Behavior || 0;
+    const timeZoneConverter = getTimeZoneConverter(pcfContext);
+
+    const result = await pcfContext.webAPI.retrieveMultipleRecords(
+      entityName,
+      `?$select=${[entityMeta.PrimaryIdAttribute, nameField, startField, endField].filter((f) => f).join(",")}` +
+        `&$filter=${startField} ne null&$orderby=${startField}`,
+      5000
+    );
+
+    const holidays: IEvent[] = [];
+    result.entities.forEach((entity) => {
+      const holiday = createHolidayEvent(
+        entity[entityMeta.PrimaryIdAttribute] as string,
+        nameField ? (entity[nameField] as string) || "" : "",
+        entity[startField],
+        endField ? entity[endField] : undefined,
+        holidayColor,
+        dateBehavior === DATE_BEHAVIOR_DATE_ONLY,
+        (date) =>
+          dateBehavior === DATE_BEHAVIOR_TIME_ZONE_INDEPENDENT
+            ? getTimeZoneIndependentValue(date)
+            : timeZoneConverter.toDisplayTime(new Date(date as string))
+      );
+      if (holiday) holidays.push(holiday);
+    });
+    return holidays;
+  }
+
+  //records without an end date or date only records cover the whole of their end day, holidays that
+  // end before they start are not displayed.
+  function createHolidayEvent(
+    id: string,
+    title: string,
+    start: unknown,
+    end: unknown,
+    holidayColor: string,
+    dateOnly: boolean,
+    toDisplayTime: (date: unknown) => Date
+  ): IEvent | undefined {
+    const holiday: IEvent = {
+      id: id,
+      title: title,
+      color: holidayColor,
+      background: true,
+    };
+
+    if (dateOnly || !end) {
+      holiday.start = getDateOnlyValue(dateOnly ? start : toDisplayTime(start));
+      holiday.end = end ? getDateOnlyValue(end) : new Date(holiday.start);
+      holiday.end.setDate(holiday.end.getDate() + 1);
+      holiday.allDay = true;
+    } else {
+      holiday.start = toDisplayTime(start);
+      holiday.end = toDisplayTime(end);
+    }
+
+    return holiday.end > holiday.start ? holiday : undefined;
+  }
+
+  //adds the start, end and all day values to the record data. fields from related entities
+  // (new_entityname.new_fieldname) cannot be saved on the event record.
+  function setEventDateValues(data: ComponentFramework.WebApi.Entity, keys: Keys, start: Date, end: Date, allDay?: boolean): void {
+    if (keys.dateOnly) {
+      //date only fields are saved without a time and with an inclusive end date
+      const inclusiveEnd = new Date(end);
+      inclusiveEnd.setDate(inclusiveEnd.getDate() - 1);
+      if (keys.start && keys.start.indexOf(".") === -1) {
+        data[keys.start] = formatDateOnlyString(start);
+      }
+      if (keys.end && keys.end.indexOf(".") === -1) {
+        data[keys.end] = formatDateOnlyString(
+          inclusiveEnd < start ? start : inclusiveEnd
+        );
+      }
+    } else {
+      const formatDate = (date: Date) =>
+        keys.timeZoneIndependent ? formatTimeZoneIndependentString(date) : date.toISOString();
+      if (keys.start && keys.start.indexOf(".") === -1) {
+        data[keys.start] = formatDate(start);
+      }
+      if (keys.end && keys.end.indexOf(".") === -1) {
+        data[keys.end] = formatDate(end);
+      }
+      if (allDay !== undefined && keys.allDay && keys.allDay.indexOf(".") === -1) {
+        data[keys.allDay] = allDay;
+      }
+    }
+  }
+
+  //lookups must be bound with the navigation property of the relationship and the entity set name
+  // of the related entity.
+  async function setLookupBind(
+    pcfContext: ComponentFramework.Context<IInputs>,
+    data: ComponentFramework.WebApi.Entity,
+    entityName: string,
+    attribute: string,
+    etn: string,
+    id: string
+  ): Promise<void> {
+    //@ts-expect-error page is available in model apps
+    const baseUrl = pcfContext.page.getClientUrl() as string;
+    const navigationProperty = await getNavigationPropertyName(baseUrl, entityName, attribute, etn);
+    if (!navigationProperty) {
+      throw new Error(`The relationship of ${attribute} to ${etn} was not found.`);
+    }
+    const entityMeta = await pcfContext.utils.getEntityMetadata(etn);
+    data[`${navigationProperty}@odata.bind`] = `/${entityMeta.EntitySetName}(${id})`;
+  }
+
+  //updates the start, end and resource of an event record in a model app after it has been
+  // moved or resized on the calendar. time zone independent start and end dates are the wall clock time.
+  export async function updateEventRecord(
+    pcfContext: ComponentFramework.Context<IInputs>,
+    keys: Keys,
+    recordId: string,
+    start: Date,
+    end: Date,
+    resourceId?: string,
+    allDay?: boolean
+  ): Promise<void> {
+    const dataSet = pcfContext.parameters.calendarDataSet;
+    const data: ComponentFramework.WebApi.Entity = {};
+
+    setEventDateValues(data, keys, start, end, allDay);
+
+    if (resourceId && keys.resource && keys.resource.indexOf(".") === -1) {
+      const record = dataSet.records[recordId] as DataSetInterfaces.EntityRecord;
+      const resourceRef = record?.getValue(
+        keys.resource
+      ) as ComponentFramework.EntityReference;
+      const resourceEtn = keys.resourceEtn || (resourceRef?.etn as string);
+
+      if (resourceEtn && resourceRef?.id.guid !== resourceId) {
+        await setLookupBind(
+          pcfContext,
+          data,
+          dataSet.getTargetEntityType(),
+          keys.resource,
+          resourceEtn,
+          resourceId
+        );
+      }
+    }
+
+    if (Object.keys(data).length === 0) return;
+
+    await pcfContext.webAPI.updateRecord(
+      dataSet.getTargetEntityType(),
+      recordId,
+      data
+    );
+  }
+
+  //creates a new event record in a model app from the quick create popover.
+  export async function createEventRecord(
+    pcfContext: ComponentFramework.Context<IInputs>,
+    keys: Keys,
+    name: string,
+    start: Date,
+    end: Date,
+    resourceId?: string,
+    allDay?: boolean
+  ): Promise<string> {
+    const dataSet = pcfContext.parameters.calendarDataSet;
+    const entityName = dataSet.getTargetEntityType();
+    const data: ComponentFramework.WebApi.Entity = {};
+
+    if (keys.name && keys.name.indexOf(".") === -1) {
+      data[keys.name] = name;
+    }
+    setEventDateValues(data, keys, start, end, allDay);
+
+    if (resourceId && keys.resource && keys.resource.indexOf(".") === -1) {
+      let resourceEtn = keys.resourceEtn;
+      if (!resourceEtn) {
+        const eventMeta = await pcfContext.utils.getEntityMetadata(entityName, [keys.resource]);
+        resourceEtn = eventMeta.Attributes.getByName(keys.resource).Targets[0];
+      }
+      if (resourceEtn) {
+        await setLookupBind(pcfContext, data, entityName, keys.resource, resourceEtn, resourceId);
+      }
+    }
+
+    const result = await pcfContext.webAPI.createRecord(entityName, data);
+    return result.id;
+  }
+
+  //creates a copy of an event record with the values of the data set columns and a new start, end and
+  // resource. related entity columns, system fields, lookups to more than one entity and attributes that
+  // cannot be set on create such as calculated and rollup fields are not copied, neither is the recurrence
+  // rule since a copy of an occurrence is a single event.
+  export async function duplicateEventRecord(
+    pcfContext: ComponentFramework.Context<IInputs>,
+    keys: Keys,
+    recordId: string,
+    start: Date,
+    end: Date,
+    resourceId?: string
+  ): Promise<string> {
+    const dataSet = pcfContext.parameters.calendarDataSet;
+    const entityName = dataSet.getTargetEntityType();
+    const record = dataSet.records[recordId] as DataSetInterfaces.EntityRecord;
+    const skippedFields = [
+      ...NOT_COPIED_FIELDS,
+      `${entityName}id`,
+      keys.id,
+      keys.start,
+      keys.end,
+      keys.allDay,
+      keys.resource,
+      keys.recurrenceRule,
+    ];
+    const data: ComponentFramework.WebApi.Entity = {};
+
+    const columns = dataSet.columns.filter(
+      (c) => c.name.indexOf(".") === -1 && !skippedFields.includes(c.name)
+    );
+    const entityMeta = await pcfContext.utils.getEntityMetadata(
+      entityName,
+      columns.map((c) => c.name)
+    );
+
+    for (const column of columns) {
+      const fieldName = column.name;
+      if (entityMeta.Attributes.getByName(fieldName)?.IsValidForCreate !== true) continue;
+      const value = record.getValue(fieldName);
+      if (value === null || value === undefined || value === "") continue;
+
+      if (column.dataType === "Lookup.Simple" || column.dataType === "Lookup.Owner") {
+        const reference = value as ComponentFramework.EntityReference;
+        await setLookupBind(pcfContext, data, entityName, fieldName, reference.etn as string, reference.id.guid);
+      } else if (column.dataType.startsWith("Lookup")) {
+        continue;
+      } else if (column.dataType === "DateAndTime.DateOnly") {
+        data[fieldName] = formatDateOnlyString(getDateOnlyValue(value));
+      } else if (column.dataType.startsWith("DateAndTime")) {
+        data[fieldName] = new Date(value as number).toISOString();
+      } else if (column.dataType === "TwoOptions") {
+        data[fieldName] = getBooleanValue(value);
+      } else if (Array.isArray(value)) {
+        data[fieldName] = value.join(",");
+      } else {
+        data[fieldName] = value;
+      }
+    }
+
+    const allDay = keys.allDay ? getBooleanValue(record.getValue(keys.allDay)) : undefined;
+    setEventDateValues(data, keys, start, end, allDay);
+
+    const resourceRef = keys.resource
+      ? (record.getValue(keys.resource) as ComponentFramework.EntityReference | null)
+      : null;
+    const newResourceId = resourceId || resourceRef?.id.guid;
+    if (newResourceId && keys.resource && keys.resource.indexOf(".") === -1) {
+      let resourceEtn = keys.resourceEtn || (resourceRef?.etn as string);
+      if (!resourceEtn) {
+        const eventMeta = await pcfContext.utils.getEntityMetadata(entityName, [keys.resource]);
+        resourceEtn = eventMeta.Attributes.getByName(keys.resource).Targets[0];
+      }
+      if (resourceEtn) {
+        await setLookupBind(pcfContext, data, entityName, keys.resource, resourceEtn, newResourceId);
+      }
+    }
+
+    const result = await pcfContext.webAPI.createRecord(entityName, data);
+    return result.id;
+  }
@@ -0,0 +1,45 @@
+import { EventCategory, EventFilter, IEvent } from "../types";
+
+export const EMPTY_EVENT_FILTER: EventFilter = { text: "", resourceIds: [], categories: [] };
+
+export function isFilterActive(filter: EventFilter): boolean {
+  return (
+    filter.text.trim() !== "" || filter.resourceIds.length > 0 || filter.categories.length > 0
+  );
+}
+
+//events from choice and status columns are filtered by their option, otherwise by their color
+export function getEventCategoryKey(event: IEvent): string {
+  return event.category || event.color || "";
+}
+
+//gets the categories that can be filtered on, when the event color is not a choice or status column
+// the distinct colors of the events are used instead.
+export function getFilterCategories(
+  events: IEvent[],
+  eventColorCategories: EventCategory[]
+): EventCategory[] {
+  if (eventColorCategories.length > 0) return eventColorCategories;
+
+  const colors = new Set<string>();
+  events.forEach((e) => {
+    if (e.color) colors.add(e.color);
+  });
+  return Array.from(colors).map((color) => ({ key: color, label: color, color: color }));
+}
+
+//keeps the events whose title or description contains the search text and that are on one of the
+// selected resources and categories.
+export function filterEvents(events: IEvent[], filter: EventFilter): IEvent[] {
+  if (!isFilterActive(filter)) return events;
+
+  const text = filter.text.trim().toLowerCase();
+  return events.filter(
+    (e) =>
+      (!text ||
+        (e.title?.toString() || "").toLowerCase().includes(text) ||
+        (e.description || "").toLowerCase().includes(text)) &&
+      (filter.resourceIds.length === 0 || filter.resourceIds.includes(`${e.resource ?? ""}`)) &&
+      (filter.categories.length === 0 || filter.categories.includes(getEventCategoryKey(e)))
+  );
+}
@@ -0,0 +1,100 @@
+import * as moment from "moment";
+import isHexColor from "is-hexcolor";
+import { DayTotals, HeatmapSettings, IEvent } from "../types";
+
+export const getDayKey = (date: Date) =>
+  `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+//thresholds are a comma separated list of numbers, eg. 2,4,8
+export function parseHeatmapThresholds(value: string | null | undefined): number[] {
+  return (value || "")
+    .split(",")
+    .map((x) => parseFloat(x.trim()))
+    .filter((x) => !isNaN(x));
+}
+
+//colors are a comma separated list of hex colors, one for each threshold
+export function parseHeatmapColors(value: string | null | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((x) => x.trim())
+    .filter((x) => isHexColor(x));
+}
+
+//counts the events on each day and adds up the hours they are booked for. all day events are counted
+// but are not included in the hours.
+export function getDayTotals(events: IEvent[]): Map<string, DayTotals> {
+  const totals = new Map<string, DayTotals>();
+  events.forEach((event) => {
+    if (!event.start || !event.end || event.background) return;
+
+    const day = moment(event.start).startOf("day");
+    do {
+      const dayStart = day.toDate();
+      const dayEnd = day.clone().add(1, "day").toDate();
+      const key = getDayKey(dayStart);
+      const dayTotals = totals.get(key) || { count: 0, hours: 0 };
+      dayTotals.count++;
+      if (!event.allDay) {
+        const start = event.start > dayStart ? event.start : dayStart;
+        const end = event.end < dayEnd ? event.end : dayEnd;
+        dayTotals.hours += Math.max(end.getTime() - start.getTime(), 0) / 3600000;
+      }
+      totals.set(key, dayTotals);
+      day.add(1, "day");
+    } while (day.toDate() < event.end);
+  });
+  return totals;
+}
+
+//gets the color of the highest threshold the day reaches
+export function getHeatmapColor(
+  settings: HeatmapSettings,
+  dayTotals: DayTotals | undefined
+): string | undefined {
+  if (settings.mode === "off" || !dayTotals) return undefined;
+
+  const value = settings.mode === "hours" ? dayTotals.hours : dayTotals.count;
+  let color: string | undefined;
+  settings.thresholds.forEach((threshold, i) => {
+    if (value >= threshold && settings.colors[i]) {
+      color = settings.colors[i];
+    }
+  });
+  return color;
+}
+
+//replaces the single day events on days with more events than the limit with one summary event,
+// events that span multiple days are kept so they are not split up.
+export function summarizeBusyDays(
+  events: IEvent[],
+  dayTotals: Map<string, DayTotals>,
+  eventLimit: number,
+  getSummaryTitle: (dayTotals: DayTotals) => string
+): IEvent[] {
+  if (eventLimit <= 0) return events;
+
+  const busyDays = new Map<string, Date>();
+  const summarizedEvents = events.filter((event) => {
+    if (!event.start || !event.end || event.background) return true;
+    const key = getDayKey(event.start);
+    const isSingleDay = moment(event.end).isSameOrBefore(moment(event.start).startOf("day").add(1, "day"));
+    if (isSingleDay && (dayTotals.get(key)?.count || 0) > eventLimit) {
+      busyDays.set(key, moment(event.start).startOf("day").toDate());
+      return false;
+    }
+    return true;
+  });
+
+  busyDays.forEach((day, key) => {
+    summarizedEvents.push({
+      id: `summary-${key}`,
+      title: getSummaryTitle(dayTotals.get(key) as DayTotals),
+      start: day,
+      end: moment(day).add(1, "day").toDate(),
+      allDay: true,
+      summary: true,
+    });
+  });
+  return summarizedEvents;
+}
@@ -0,0 +1,23 @@
+import * as moment from "moment";
+import { IEvent, Resource } from "../types";
+
+//gets the holidays that overlap with the range
+export function getHolidaysInRange(holidays: IEvent[], start: Date, end: Date): IEvent[] {
+  return holidays.filter(
+    (h) => (h.start as Date) < end && (h.end as Date) > start
+  );
+}
+
+//checks if any part of the day is covered by a holiday or blackout date
+export function isHolidayDay(holidays: IEvent[], date: Date): boolean {
+  const dayStart = moment(date).startOf("day").toDate();
+  const dayEnd = moment(dayStart).add(1, "day").toDate();
+  return getHolidaysInRange(holidays, dayStart, dayEnd).length > 0;
+}
+
+//holidays apply to every resource so they are displayed behind the events in each resource column
+export function assignHolidaysToResources(holidays: IEvent[], resources: Resource[] | undefined): IEvent[] {
+  if (!resources || resources.length === 0) return holidays;
+  const resourceIds = resources.map((r) => r.id);
+  return holidays.map((h) => ({ ...h, resource: resourceIds }));
+}
@@ -0,0 +1,235 @@
+import ICAL from "ical.js";
+import { IEvent, Resource, TimeZoneConverter } from "../types";
+import { formatDateOnlyString } from "./CalendarHelpers";
+
+const GUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+//escapes text values as defined in RFC 5545 section 3.3.11
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+//lines longer than 75 octets must be folded onto multiple lines that start with a space
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = "";
+  let currentLength = 0;
+
+  for (const char of line) {
+    const charLength = encoder.encode(char).length;
+    //continuation lines lose one octet to the leading space
+    const maxLength = lines.length === 0 ? 75 : 74;
+    if (currentLength + charLength > maxLength) {
+      lines.push(current);
+      current = "";
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  lines.push(current);
+
+  return lines.join("\r\n ");
+}
+
+//formats a date as a UTC date-time such as 20250101T130000Z
+function formatIcsDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function formatIcsDate(date: Date): string {
+  return formatDateOnlyString(date).replace(/-/g, "");
+}
+
+//gets the events that overlap with the range, all day events end at midnight of the following day.
+export function getEventsInRange(
+  events: IEvent[],
+  rangeStart: Date,
+  rangeEnd: Date
+): IEvent[] {
+  return events.filter(
+    (e) => e.start && e.end && e.start <= rangeEnd && e.end > rangeStart
+  );
+}
+
+//creates an RFC 5545 iCalendar document from the events, timed events are converted from
+// the display time zone into UTC.
+export function createIcsDocument(
+  events: IEvent[],
+  resources: Resource[] | undefined,
+  timeZoneConverter?: TimeZoneConverter
+): string {
+  const toUtc = (date: Date) =>
+    timeZoneConverter ? timeZoneConverter.fromDisplayTime(date) : date;
+  const timestamp = formatIcsDateTime(new Date());
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//RAW//PCF Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+
+  events.forEach((event) => {
+    if (!event.start || !event.end) return;
+
+    //occurrences of a recurring record share the record id so add the occurrence start to keep the UID unique
+    const uid = event.seriesStart
+      ? `${event.id}-${formatIcsDateTime(event.start)}`
+      : `${event.id}`;
+
+    lines.push("BEGIN:VEVENT");
+    lines.push(`UID:${uid}@${window.location.hostname}`);
+    lines.push(`DTSTAMP:${timestamp}`);
+    if (event.allDay) {
+      lines.push(`DTSTART;VALUE=DATE:${formatIcsDate(event.start)}`);
+      lines.push(`DTEND;VALUE=DATE:${formatIcsDate(event.end)}`);
+    } else {
+      lines.push(`DTSTART:${formatIcsDateTime(toUtc(event.start))}`);
+      lines.push(`DTEND:${formatIcsDateTime(toUtc(event.end))}`);
+    }
+    lines.push(`SUMMARY:${escapeIcsText(`${event.title || ""}`)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    }
+
+    const resource = resources?.find((r) => r.id === event.resource);
+    if (resource) {
+      lines.push(`LOCATION:${escapeIcsText(resource.title)}`);
+      //attendees must be a uri so we can only add them when the resource id is a guid
+      if (GUID_REGEX.test(resource.id)) {
+        lines.push(
+          `ATTENDEE;CUTYPE=RESOURCE;ROLE=NON-PARTICIPANT;CN="${resource.title.replace(/"/g, "")}":urn:uuid:${resource.id}`
+        );
+      }
+    }
+    lines.push("END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
+
+//dates and floating times have no time zone so they are shown as is, other times are
+// converted into the display time zone.
+function toDisplayDate(time: ICAL.Time, timeZoneConverter?: TimeZoneConverter): Date {
+  const date = time.toJSDate();
+  if (!timeZoneConverter || time.isDate || time.zone?.tzid === "floating") {
+    return date;
+  }
+  return timeZoneConverter.toDisplayTime(date);
+}
+
+//converts an ical.js event or occurrence into an event that can be displayed on the calendar
+function toIcsEvent(
+  icalEvent: ICAL.Event,
+  startDate: ICAL.Time,
+  endDate: ICAL.Time,
+  timeZoneConverter?: TimeZoneConverter
+): IEvent {
+  const newEvent: IEvent = {
+    id: icalEvent.uid,
+    title: icalEvent.summary || "",
+    start: toDisplayDate(startDate, timeZoneConverter),
+    end: toDisplayDate(endDate, timeZoneConverter),
+    allDay: startDate.isDate,
+    ics: true,
+  };
+  if (icalEvent.description) {
+    newEvent.description = icalEvent.description;
+  }
+  return newEvent;
+}
+
+//parses the VEVENTs in an iCalendar document, recurring events are expanded into the
+// occurrences that fall inside the range.
+export function parseIcsDocument(
+  icsContent: string,
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZoneConverter?: TimeZoneConverter
+): IEvent[] {
+  const events: IEvent[] = [];
+
+  try {
+    const vcalendar = new ICAL.Component(ICAL.parse(icsContent));
+
+    //register the time zones defined in the document so TZID values convert correctly
+    vcalendar.getAllSubcomponents("vtimezone").forEach((vtimezone) => {
+      const tzid = vtimezone.getFirstPropertyValue("tzid") as string;
+      if (tzid && !ICAL.TimezoneService.has(tzid)) {
+        ICAL.TimezoneService.register(vtimezone);
+      }
+    });
+
+    const vevents = vcalendar.getAllSubcomponents("vevent");
+    //modified occurrences are defined as separate VEVENTs with a RECURRENCE-ID
+    const exceptions = vevents.filter((v) => v.hasProperty("recurrence-id"));
+
+    vevents
+      .filter((v) => !v.hasProperty("recurrence-id"))
+      .forEach((vevent) => {
+        const uid = vevent.getFirstPropertyValue("uid");
+        const icalEvent = new ICAL.Event(vevent, {
+          exceptions: exceptions.filter((e) => e.getFirstPropertyValue("uid") === uid),
+        });
+
+        if (!icalEvent.startDate) return;
+
+        if (!icalEvent.isRecurring()) {
+          const newEvent = toIcsEvent(
+            icalEvent,
+            icalEvent.startDate,
+            icalEvent.endDate,
+            timeZoneConverter
+          );
+          if (getEventsInRange([newEvent], rangeStart, rangeEnd).length > 0) {
+            events.push(newEvent);
+          }
+          return;
+        }
+
+        const iterator = icalEvent.iterator();
+        let next = iterator.next();
+        while (next && toDisplayDate(next, timeZoneConverter) <= rangeEnd) {
+          const details = icalEvent.getOccurrenceDetails(next);
+          const occurrence = toIcsEvent(
+            details.item,
+            details.startDate,
+            details.endDate,
+            timeZoneConverter
+          );
+          //occurrences return the series id along with the start of the series
+          occurrence.id = icalEvent.uid;
+          occurrence.seriesStart = toDisplayDate(icalEvent.startDate, timeZoneConverter);
+          if (occurrence.end && occurrence.end > rangeStart) {
+            events.push(occurrence);
+          }
+          next = iterator.next();
+        }
+      });
+  } catch (e) {
+    console.log(`parseIcsDocument: unable to parse the ICS content: ${e}`);
+  }
+
+  return events;
+}
+
+//downloads the text as a file in the browser
+export function downloadTextFile(text: string, fileName: string, mimeType: string): void {
+  const blob = new Blob([text], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
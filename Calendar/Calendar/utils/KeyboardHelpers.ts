@@ -0,0 +1,192 @@
+import * as moment from "moment";
+import { DateLocalizer } from "react-big-calendar";
+import Timeline from "../components/Timeline";
+import { ICalendarMessages } from "../components/Translations";
+import { FocusedSlot, IEvent, Resource } from "../types";
+import * as Constants from "./Constants";
+
+//the time slots and month days that can be focused have their date and resource in data attributes
+export const SLOT_SELECTOR = "[data-slot-key]";
+
+export const getSlotKey = (date: Date, resourceId?: string | number | null) =>
+  `${date.getTime()}_${resourceId ?? ""}`;
+
+//the attributes that make a time slot or month day focusable, only the focused slot is reached with tab
+export function getSlotAttributes(
+  date: Date,
+  resourceId: string | number | null | undefined,
+  focusedSlotKey: string | undefined,
+  label: string
+) {
+  const slotKey = getSlotKey(date, resourceId);
+  return {
+    "data-slot-key": slotKey,
+    "data-slot-date": date.getTime(),
+    "data-slot-resource": resourceId ?? "",
+    className: slotKey === focusedSlotKey ? "rbc-slot-focusable rbc-slot-focused" : "rbc-slot-focusable",
+    role: "button",
+    tabIndex: slotKey === focusedSlotKey ? 0 : -1,
+    "aria-label": label,
+  };
+}
+
+export function getFocusedSlot(element: HTMLElement): FocusedSlot {
+  return {
+    date: new Date(Number(element.dataset.slotDate)),
+    resourceId: element.dataset.slotResource || undefined,
+  };
+}
+
+//finds the element of the focused slot, when it is not displayed in the current view the first slot
+// on the same day, or the first slot in the view is used instead.
+export function findSlotElement(
+  container: HTMLElement,
+  slot: FocusedSlot | undefined
+): HTMLElement | undefined {
+  const slots = Array.from(container.querySelectorAll<HTMLElement>(SLOT_SELECTOR));
+  if (!slot) return slots[0];
+
+  const key = getSlotKey(slot.date, slot.resourceId);
+  const sameDay = (element: HTMLElement) => {
+    const focusedSlot = getFocusedSlot(element);
+    return (
+      moment(focusedSlot.date).isSame(slot.date, "day") &&
+      (!slot.resourceId || focusedSlot.resourceId === slot.resourceId)
+    );
+  };
+  return (
+    slots.find((element) => element.dataset.slotKey === key) || slots.find(sameDay) || slots[0]
+  );
+}
+
+//finds the slot next to the focused one for an arrow key. the month view moves between the days, the
+// other views move up and down the time slots in a column and left and right between the columns.
+export function getAdjacentSlot(
+  container: HTMLElement,
+  slot: HTMLElement,
+  key: string,
+  rtl: boolean
+): HTMLElement | undefined {
+  const horizontal = (key === "ArrowRight") !== rtl ? 1 : -1;
+
+  if (slot.closest(".rbc-month-view")) {
+    const days = Array.from(container.querySelectorAll<HTMLElement>(`.rbc-month-view ${SLOT_SELECTOR}`));
+    const offset = key === "ArrowUp" ? -7 : key === "ArrowDown" ? 7 : horizontal;
+    return days[days.indexOf(slot) + offset];
+  }
+
+  const column = slot.closest(".rbc-day-slot");
+  if (!column) return undefined;
+  const slots = Array.from(column.querySelectorAll<HTMLElement>(SLOT_SELECTOR));
+  const index = slots.indexOf(slot);
+  if (key === "ArrowUp" || key === "ArrowDown") {
+    return slots[index + (key === "ArrowUp" ? -1 : 1)];
+  }
+
+  //the columns are in the order they are displayed, grouped by resource when there are resources
+  const columns = Array.from(container.querySelectorAll(".rbc-time-content .rbc-day-slot"));
+  const nextColumn = columns[columns.indexOf(column) + horizontal];
+  return nextColumn?.querySelectorAll<HTMLElement>(SLOT_SELECTOR)[index];
+}
+
+//gets the date to move to when an arrow key is pressed on the edge of the view so the calendar can
+// navigate to it. moving up or down past the hours shown in the day and week views does nothing.
+export function getEdgeSlotDate(
+  date: Date,
+  key: string,
+  isMonthView: boolean,
+  rtl: boolean,
+  includedDays?: number[]
+): Date | undefined {
+  const horizontal = (key === "ArrowRight") !== rtl ? 1 : -1;
+  if (isMonthView) {
+    const offset = key === "ArrowUp" ? -7 : key === "ArrowDown" ? 7 : horizontal;
+    return moment(date).add(offset, "day").toDate();
+  }
+  if (key === "ArrowUp" || key === "ArrowDown") return undefined;
+
+  //skip the days which are not part of the work week
+  const next = moment(date).add(horizontal, "day");
+  while (includedDays && includedDays.length > 0 && !includedDays.includes(next.day())) {
+    next.add(horizontal, "day");
+  }
+  return next.toDate();
+}
+
+//moves the date by the length of the view for page up and page down
+export function getNavigateDate(date: Date, view: string, direction: number): Date {
+  switch (view) {
+    case "day":
+      return moment(date).add(direction, "day").toDate();
+    case "week":
+    case "work_week":
+      return moment(date).add(direction, "week").toDate();
+    case "timeline":
+      return moment(date).add(direction * Timeline.days, "day").toDate();
+    case "year":
+      return moment(date).add(direction, "year").toDate();
+    case "agenda":
+      return moment(date).add(direction * Constants.AGENDA_LENGTH, "day").toDate();
+    default:
+      return moment(date).add(direction, "month").toDate();
+  }
+}
+
+function getResourceTitles(resources: Resource[] | undefined, resourceId: unknown): string {
+  const resourceIds = Array.isArray(resourceId) ? resourceId : [resourceId];
+  return (resources || [])
+    .filter((r) => resourceIds.includes(r.id))
+    .map((r) => r.title)
+    .join(", ");
+}
+
+//the label read by screen readers for an event with its title, time and resource
+export function getEventAriaLabel(
+  event: IEvent,
+  messages: ICalendarMessages,
+  localizer: DateLocalizer,
+  culture: string,
+  resources?: Resource[]
+): string {
+  const start = event.start as Date;
+  const end = event.end as Date;
+  let time: string;
+  if (event.allDay) {
+    //all day events end at midnight of the next day
+    const lastDay = moment(end).subtract(1, "day").toDate();
+    time = moment(lastDay).isAfter(start, "day")
+      ? `${messages.allDay} ${localizer.format(start, "LL", culture)} - ${localizer.format(lastDay, "LL", culture)}`
+      : `${messages.allDay} ${localizer.format(start, "LL", culture)}`;
+  } else {
+    time = `${localizer.format(start, "LLLL", culture)} - ${localizer.format(
+      end,
+      moment(end).isSame(start, "day") ? "LT" : "LLLL",
+      culture
+    )}`;
+  }
+
+  const label = [event.title?.toString() || "", time];
+  const resourceTitles = getResourceTitles(resources, event.resource);
+  if (resourceTitles) {
+    label.push(`${messages.eventResource}: ${resourceTitles}`);
+  }
+  return label.join(", ");
+}
+
+//the label read by screen readers for a time slot or a day in the month view
+export function getSlotAriaLabel(
+  date: Date,
+  isDay: boolean,
+  messages: ICalendarMessages,
+  localizer: DateLocalizer,
+  culture: string,
+  resources?: Resource[],
+  resourceId?: string | number | null
+): string {
+  const label = [localizer.format(date, isDay ? "dddd LL" : "LLLL", culture)];
+  const resourceTitles = getResourceTitles(resources, resourceId);
+  if (resourceTitles) {
+    label.push(`${messages.eventResource}: ${resourceTitles}`);
+  }
+  return label.join(", ");
+}
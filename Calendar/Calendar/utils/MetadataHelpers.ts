@@ -0,0 +1,44 @@
+import axios, { AxiosResponse } from "axios";
+
+const OWNER_ENTITIES = ["systemuser", "team"];
+
+//gets the case sensitive navigation property used to bind a lookup, it is not always the same as the
+// logical name of the lookup. lookups to more than one entity have a relationship for each related entity
+// so undefined is returned when there is no relationship to the related entity.
+export async function getNavigationPropertyName(
+  baseUrl: string,
+  entityName: string,
+  attribute: string,
+  relatedEntityName: string
+): Promise<string | undefined> {
+  const filter = `ReferencingAttribute%20eq%20'${attribute}'`;
+  const url = `${baseUrl}/api/data/v9.1/EntityDefinitions(LogicalName='${entityName}')/ManyToOneRelationships?$select=ReferencedEntity,ReferencingEntityNavigationPropertyName&$filter=${filter}`;
+
+  try {
+    const response: AxiosResponse = await axios.get(url, {
+      headers: {
+        "OData-MaxVersion": "4.0",
+        "OData-Version": "4.0",
+        Accept: "application/json",
+        "Content-Type": "application/json; charset=utf-8",
+      },
+    });
+
+    const relationships = response.data.value as {
+      ReferencedEntity: string;
+      ReferencingEntityNavigationPropertyName: string;
+    }[];
+    //owner lookups have a single relationship to the owner entity for both users and teams
+    const referencedEntities = OWNER_ENTITIES.includes(relatedEntityName)
+      ? [relatedEntityName, "owner"]
+      : [relatedEntityName];
+    return relationships.find((r) => referencedEntities.includes(r.ReferencedEntity))
+      ?.ReferencingEntityNavigationPropertyName;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      throw new Error(error.response?.statusText ?? error.message);
+    } else {
+      throw error;
+    }
+  }
+}
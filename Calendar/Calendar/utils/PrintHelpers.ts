@@ -0,0 +1,253 @@
+import { CSSProperties } from "react";
+import * as moment from "moment";
+import { jsPDF } from "jspdf";
+import html2canvas from "html2canvas";
+import { IEvent, Resource } from "../types";
+
+//each page holds a week of days and a limited number of resources so it fits on a landscape A4 page
+const DAYS_PER_PAGE = 7;
+const RESOURCES_PER_PAGE = 8;
+//A4 landscape at 96dpi less the 10mm margins
+const PAGE_WIDTH_PX = 1047;
+const PDF_MARGIN_MM = 10;
+
+const PRINT_STYLES = `
+@page { size: A4 landscape; margin: 10mm; }
+body { margin: 0; font-family: "Segoe UI", sans-serif; font-size: 11px; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+.print-page { width: ${PAGE_WIDTH_PX}px; box-sizing: border-box; padding: 8px; background: #fff; break-after: page; }
+.print-page:last-child { break-after: auto; }
+.print-header { display: flex; justify-content: space-between; align-items: baseline; margin-bottom: 8px; }
+.print-title { font-size: 16px; font-weight: bold; }
+.print-table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+.print-table th, .print-table td { border: 1px solid; padding: 4px; vertical-align: top; text-align: left; }
+.print-table tr { break-inside: avoid; }
+.print-resource { width: 120px; }
+.print-event { border: 1px solid; border-radius: 3px; padding: 2px 4px; margin-bottom: 3px; overflow-wrap: anywhere; }
+.print-event-time { display: block; font-size: 10px; opacity: 0.85; }
+`;
+
+export interface PrintOptions {
+  title: string;
+  culture: string;
+  resources?: Resource[];
+  allDayLabel: string;
+  textColor: string;
+  borderColor: string;
+  //the style of the events and days on the calendar so the printout uses the same colors
+  getEventStyle: (event: IEvent) => CSSProperties;
+  getDayStyle: (date: Date, resourceId?: string) => CSSProperties;
+}
+
+//splits the items into groups of the given size
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function applyStyle(element: HTMLElement, style: CSSProperties) {
+  if (style.backgroundColor) element.style.backgroundColor = style.backgroundColor;
+  if (style.color) element.style.color = style.color;
+  if (style.borderColor) element.style.borderColor = style.borderColor;
+}
+
+function createElement(
+  doc: Document,
+  tagName: string,
+  className?: string,
+  text?: string
+): HTMLElement {
+  const element = doc.createElement(tagName);
+  if (className) element.className = className;
+  if (text !== undefined) element.textContent = text;
+  return element;
+}
+
+//gets the events on the day, and resource when there are resources, ordered by their start
+function getDayEvents(events: IEvent[], day: Date, resourceId?: string): IEvent[] {
+  const dayStart = moment(day).startOf("day").toDate();
+  const dayEnd = moment(day).endOf("day").toDate();
+  return events
+    .filter(
+      (e) =>
+        e.start &&
+        e.end &&
+        e.start <= dayEnd &&
+        (e.end > dayStart || e.start >= dayStart) &&
+        (resourceId === undefined || e.resource === resourceId)
+    )
+    .sort((a, b) => (a.start as Date).getTime() - (b.start as Date).getTime());
+}
+
+function createEventElement(doc: Document, event: IEvent, options: PrintOptions): HTMLElement {
+  const eventElement = createElement(doc, "div", "print-event");
+  applyStyle(eventElement, options.getEventStyle(event));
+  const time = event.allDay
+    ? options.allDayLabel
+    : `${moment(event.start).locale(options.culture).format("LT")} - ${moment(event.end)
+        .locale(options.culture)
+        .format("LT")}`;
+  eventElement.appendChild(createElement(doc, "span", "print-event-time", time));
+  eventElement.appendChild(doc.createTextNode(event.title?.toString() || ""));
+  return eventElement;
+}
+
+//renders the events in the range into pages laid out with the days as columns and the resources as rows
+export function renderPrintPages(
+  doc: Document,
+  events: IEvent[],
+  range: { start: Date; end: Date },
+  options: PrintOptions
+): HTMLElement[] {
+  const days: Date[] = [];
+  for (
+    let day = moment(range.start).startOf("day");
+    day.isSameOrBefore(range.end);
+    day = day.clone().add(1, "day")
+  ) {
+    days.push(day.toDate());
+  }
+
+  const resources = options.resources && options.resources.length > 0 ? options.resources : undefined;
+  const resourceGroups: (Resource[] | undefined)[] = resources
+    ? chunk(resources, RESOURCES_PER_PAGE)
+    : [undefined];
+  const pageDays = chunk(days, DAYS_PER_PAGE);
+
+  const pages: HTMLElement[] = [];
+  pageDays.forEach((pageDay) => {
+    resourceGroups.forEach((resourceGroup) => {
+      const page = createElement(doc, "section", "print-page");
+      page.style.color = options.textColor;
+
+      const header = createElement(doc, "div", "print-header");
+      header.appendChild(createElement(doc, "span", "print-title", options.title));
+      header.appendChild(
+        createElement(
+          doc,
+          "span",
+          undefined,
+          `${moment(pageDay[0]).locale(options.culture).format("LL")} - ${moment(pageDay[pageDay.length - 1])
+            .locale(options.culture)
+            .format("LL")}`
+        )
+      );
+      page.appendChild(header);
+
+      const table = createElement(doc, "table", "print-table");
+      const headRow = createElement(doc, "tr");
+      if (resourceGroup) {
+        headRow.appendChild(createElement(doc, "th", "print-resource"));
+      }
+      pageDay.forEach((day) => {
+        const th = createElement(doc, "th", undefined, moment(day).locale(options.culture).format("ddd L"));
+        applyStyle(th, options.getDayStyle(day));
+        headRow.appendChild(th);
+      });
+      const thead = createElement(doc, "thead");
+      thead.appendChild(headRow);
+      table.appendChild(thead);
+
+      const tbody = createElement(doc, "tbody");
+      (resourceGroup || [undefined]).forEach((resource) => {
+        const row = createElement(doc, "tr");
+        if (resource) {
+          row.appendChild(createElement(doc, "th", "print-resource", resource.title));
+        }
+        pageDay.forEach((day) => {
+          const cell = createElement(doc, "td");
+          applyStyle(cell, options.getDayStyle(day, resource?.id));
+          getDayEvents(events, day, resource?.id).forEach((event) =>
+            cell.appendChild(createEventElement(doc, event, options))
+          );
+          row.appendChild(cell);
+        });
+        tbody.appendChild(row);
+      });
+      table.appendChild(tbody);
+      table.querySelectorAll<HTMLElement>("th, td").forEach((cell) => {
+        cell.style.borderColor = options.borderColor;
+      });
+      page.appendChild(table);
+
+      doc.body.appendChild(page);
+      pages.push(page);
+    });
+  });
+  return pages;
+}
+
+//the pages are rendered in a hidden frame so they are laid out without the styles of the app
+function createPrintFrame(title: string): HTMLIFrameElement {
+  const frame = document.createElement("iframe");
+  frame.setAttribute("aria-hidden", "true");
+  frame.style.position = "fixed";
+  frame.style.left = "-10000px";
+  frame.style.top = "0";
+  frame.style.width = `${PAGE_WIDTH_PX}px`;
+  frame.style.height = "800px";
+  frame.style.border = "0";
+  document.body.appendChild(frame);
+
+  const doc = frame.contentDocument as Document;
+  doc.title = title;
+  const style = doc.createElement("style");
+  style.textContent = PRINT_STYLES;
+  doc.head.appendChild(style);
+  return frame;
+}
+
+//opens the browser print dialog with the print layout instead of the calendar
+export function printCalendar(
+  events: IEvent[],
+  range: { start: Date; end: Date },
+  options: PrintOptions
+): void {
+  const frame = createPrintFrame(options.title);
+  renderPrintPages(frame.contentDocument as Document, events, range, options);
+  const frameWindow = frame.contentWindow as Window;
+  frameWindow.addEventListener("afterprint", () => frame.remove());
+  frameWindow.focus();
+  frameWindow.print();
+}
+
+//creates a landscape A4 PDF with an image of each page of the print layout
+export async function createCalendarPdf(
+  events: IEvent[],
+  range: { start: Date; end: Date },
+  options: PrintOptions
+): Promise<jsPDF> {
+  const frame = createPrintFrame(options.title);
+  try {
+    const pages = renderPrintPages(frame.contentDocument as Document, events, range, options);
+    const pdf = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" });
+    const maxWidth = pdf.internal.pageSize.getWidth() - PDF_MARGIN_MM * 2;
+    const maxHeight = pdf.internal.pageSize.getHeight() - PDF_MARGIN_MM * 2;
+
+    for (let i = 0; i < pages.length; i++) {
+      const canvas = await html2canvas(pages[i], { scale: 2, backgroundColor: "#ffffff" });
+      //pages with a lot of events are scaled down to fit the height of the page
+      const ratio = Math.min(maxWidth / canvas.width, maxHeight / canvas.height);
+      if (i > 0) pdf.addPage();
+      pdf.addImage(
+        canvas.toDataURL("image/png"),
+        "PNG",
+        PDF_MARGIN_MM,
+        PDF_MARGIN_MM,
+        canvas.width * ratio,
+        canvas.height * ratio
+      );
+    }
+    return pdf;
+  } finally {
+    frame.remove();
+  }
+}
+
+//gets the PDF as a base64 string without the data uri prefix
+export function getPdfBase64(pdf: jsPDF): string {
+  const dataUri = pdf.output("datauristring");
+  return dataUri.substring(dataUri.indexOf(",") + 1);
+}
@@ -0,0 +1,130 @@
+import { rrulestr } from "rrule";
+import { IEvent, TimeZoneConverter } from "../types";
+import { getIanaTimeZoneConverter } from "./TimeZoneHelpers";
+
+//rrule works with "floating" UTC dates so convert the local wall clock time into UTC
+// this keeps occurrences at the same local time when they cross a daylight saving change.
+function toFloatingDate(date: Date): Date {
+  return new Date(
+    Date.UTC(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      date.getHours(),
+      date.getMinutes(),
+      date.getSeconds()
+    )
+  );
+}
+
+function fromFloatingDate(date: Date): Date {
+  return new Date(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds()
+  );
+}
+
+//formats a date as a floating iCalendar date-time (YYYYMMDDTHHMMSS) using the local wall clock time.
+function toICalendarDateTime(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return (
+    date.getFullYear() +
+    pad(date.getMonth() + 1) +
+    pad(date.getDate()) +
+    "T" +
+    pad(date.getHours()) +
+    pad(date.getMinutes()) +
+    pad(date.getSeconds())
+  );
+}
+
+//EXDATE and RDATE values in UTC or with a TZID are a point in time, they are changed into the floating
+// wall clock time shown on the calendar so they match the occurrences. values with a TZID the browser
+// does not know are used as the wall clock time.
+function normalizeRecurrenceDates(ruleText: string, timeZoneConverter: TimeZoneConverter): string {
+  return ruleText
+    .split(/\r?\n/)
+    .map((line) => {
+      const match = /^(EXDATE|RDATE)((?:;[^:]*)?):(.*)$/i.exec(line.trim());
+      if (!match) return line;
+
+      const params = match[2].split(";").filter((p) => p);
+      const tzid = params
+        .find((p) => p.toUpperCase().startsWith("TZID="))
+        ?.substring(5)
+        .replace(/"/g, "");
+      const zoneConverter = tzid ? getIanaTimeZoneConverter(tzid) : undefined;
+
+      const values = match[3].split(",").map((value) => {
+        const parts = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/i.exec(value.trim());
+        if (!parts || (!parts[7] && !zoneConverter)) return value.trim();
+        const [year, month, day, hour, minute, second] = parts.slice(1, 7).map(Number);
+        const instant = parts[7]
+          ? new Date(Date.UTC(year, month - 1, day, hour, minute, second))
+          : (zoneConverter as TimeZoneConverter).fromDisplayTime(
+              new Date(year, month - 1, day, hour, minute, second)
+            );
+        return toICalendarDateTime(timeZoneConverter.toDisplayTime(instant));
+      });
+
+      const otherParams = params.filter((p) => !p.toUpperCase().startsWith("TZID="));
+      return `${match[1]}${otherParams.map((p) => `;${p}`).join("")}:${values.join(",")}`;
+    })
+    .join("\n");
+}
+
+//expands any events that have a recurrence rule into their occurrences that fall inside the range.
+// the rule can be a single RRULE or a full set of RRULE/RDATE/EXDATE lines.
+export function expandRecurringEvents(
+  events: IEvent[],
+  rangeStart: Date,
+  rangeEnd: Date,
+  timeZoneConverter: TimeZoneConverter
+): IEvent[] {
+  const expandedEvents: IEvent[] = [];
+
+  events.forEach((event) => {
+    if (!event.recurrenceRule || !event.start || !event.end) {
+      expandedEvents.push(event);
+      return;
+    }
+
+    const duration = event.end.getTime() - event.start.getTime();
+
+    try {
+      //rrulestr ignores the dtstart option when building a set so add it to the rule itself.
+      const recurrenceRule = normalizeRecurrenceDates(event.recurrenceRule.trim(), timeZoneConverter);
+      const ruleText = recurrenceRule.toUpperCase().indexOf("DTSTART") === -1
+        ? `DTSTART:${toICalendarDateTime(event.start)}\n${recurrenceRule}`
+        : recurrenceRule;
+      const rule = rrulestr(ruleText, { forceset: true });
+
+      //include occurrences that started before the range but are still running at the start of it.
+      const occurrences = rule.between(
+        toFloatingDate(new Date(rangeStart.getTime() - duration)),
+        toFloatingDate(rangeEnd),
+        true
+      );
+
+      occurrences.forEach((occurrence) => {
+        const start = fromFloatingDate(occurrence);
+        expandedEvents.push({
+          ...event,
+          start: start,
+          end: new Date(start.getTime() + duration),
+          seriesStart: event.start,
+        });
+      });
+    } catch (e) {
+      //if the rule cannot be parsed show the record as a single event.
+      console.log(`expandRecurringEvents: invalid recurrence rule for ${event.id}: ${e}`);
+      expandedEvents.push(event);
+    }
+  });
+
+  return expandedEvents;
+}
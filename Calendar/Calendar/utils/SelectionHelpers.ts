@@ -0,0 +1,36 @@
+import { EventSelectionMode, IEvent } from "../types";
+
+//gets the record ids selected after clicking an event. the anchor is the last event clicked and range
+// selections include the events that start between it and the clicked event.
+export function getSelectedRecordIds(
+  selectedIds: string[],
+  anchorId: string | undefined,
+  eventId: string,
+  mode: EventSelectionMode,
+  events: IEvent[]
+): string[] {
+  if (mode === "toggle") {
+    return selectedIds.includes(eventId)
+      ? selectedIds.filter((id) => id !== eventId)
+      : [...selectedIds, eventId];
+  }
+
+  if (mode === "range" && anchorId && anchorId !== eventId) {
+    const sortedIds = events
+      .filter((e) => e.id && e.start)
+      .sort((a, b) => (a.start as Date).getTime() - (b.start as Date).getTime())
+      .map((e) => e.id as string)
+      .filter((id, index, ids) => ids.indexOf(id) === index);
+    const anchorIndex = sortedIds.indexOf(anchorId);
+    const eventIndex = sortedIds.indexOf(eventId);
+    if (anchorIndex !== -1 && eventIndex !== -1) {
+      const rangeIds = sortedIds.slice(
+        Math.min(anchorIndex, eventIndex),
+        Math.max(anchorIndex, eventIndex) + 1
+      );
+      return [...selectedIds.filter((id) => !rangeIds.includes(id)), ...rangeIds];
+    }
+  }
+
+  return [eventId];
+}
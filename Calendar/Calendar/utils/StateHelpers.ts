@@ -0,0 +1,82 @@
+import { IInputs } from "../generated/ManifestTypes";
+import { CalendarState } from "../types";
+import * as Constants from "./Constants";
+
+//canvas apps do not have an entity or view to tell the calendars apart so the name of the data source
+// the calendar is bound to is used when no settings key is set.
+function getInstanceKey(pcfContext: ComponentFramework.Context<IInputs>): string {
+  const key = pcfContext.parameters.calendarStateKey?.raw || "";
+  if (key || pcfContext.mode.allocatedHeight === -1) return key;
+  try {
+    return pcfContext.parameters.calendarDataSet.getTitle() || "";
+  } catch (e) {
+    return "";
+  }
+}
+
+export function isRememberStateEnabled(pcfContext: ComponentFramework.Context<IInputs>): boolean {
+  const enabled =
+    pcfContext.parameters.calendarRememberState?.raw?.toLowerCase() === "false"
+      ? false
+      : Constants.DEFAULT_REMEMBER_STATE;
+  return enabled && (pcfContext.mode.allocatedHeight === -1 || !!getInstanceKey(pcfContext));
+}
+
+//the state is saved for each user, settings key, form, entity and view so calendars on different forms,
+// views or with a different key do not share it
+function getStateKey(pcfContext: ComponentFramework.Context<IInputs>): string {
+  const dataSet = pcfContext.parameters.calendarDataSet;
+  let viewId = "";
+  let formEntity = "";
+  try {
+    viewId = dataSet.getViewId() || "";
+    //@ts-expect-error contextInfo access
+    formEntity = pcfContext.mode.contextInfo?.entityTypeName || "";
+  } catch (e) {
+    //canvas apps do not have a view or form
+  }
+  return [
+    Constants.STATE_STORAGE_PREFIX,
+    pcfContext.userSettings.userId,
+    getInstanceKey(pcfContext),
+    formEntity,
+    dataSet.getTargetEntityType() || "",
+    viewId,
+  ].join("_");
+}
+
+//gets the state saved in the browser the last time the user used the calendar
+export function loadCalendarState(
+  pcfContext: ComponentFramework.Context<IInputs>
+): CalendarState | undefined {
+  try {
+    const value = window.localStorage.getItem(getStateKey(pcfContext));
+    return value ? (JSON.parse(value) as CalendarState) : undefined;
+  } catch (e) {
+    console.log(`loadCalendarState: the saved state could not be read. ${(e as Error).message}`);
+    return undefined;
+  }
+}
+
+//merges the changed values into the state saved in the browser, storage can be blocked by the browser
+// in which case the state is not remembered
+export function saveCalendarState(
+  pcfContext: ComponentFramework.Context<IInputs>,
+  state: CalendarState
+): void {
+  try {
+    const key = getStateKey(pcfContext);
+    const savedState = loadCalendarState(pcfContext) || {};
+    window.localStorage.setItem(key, JSON.stringify({ ...savedState, ...state }));
+  } catch (e) {
+    console.log(`saveCalendarState: the state could not be saved. ${(e as Error).message}`);
+  }
+}
+
+//gets the hour at the top of the scrolled time grid from the first and last hours it displays
+export function getScrollHour(element: HTMLElement, min: Date, max: Date): number {
+  const minHour = min.getHours() + min.getMinutes() / 60;
+  const maxHour = max.getHours() + max.getMinutes() / 60;
+  const ratio = element.scrollHeight > 0 ? element.scrollTop / element.scrollHeight : 0;
+  return Math.round((minHour + ratio * (maxHour - minHour)) * 4) / 4;
+}
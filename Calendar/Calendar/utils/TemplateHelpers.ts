@@ -0,0 +1,52 @@
+import DOMPurify from "dompurify";
+
+//the only html the event template can produce, all attributes are removed
+const TEMPLATE_ALLOWED_TAGS = ["b", "strong", "i", "em", "u", "s", "small", "br", "p", "div", "span", "ul", "ol", "li"];
+//{fieldname} or {new_entityname.new_fieldname} for related entities
+const TEMPLATE_TOKEN_PATTERN = /\{([^{}\s]+)\}/g;
+
+//converts the markdown supported in the template, **bold**, *italic* and line breaks, to html
+function markdownToHtml(template: string): string {
+  return template
+    .replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>")
+    .replace(/\*(.+?)\*/g, "<em>$1</em>")
+    .replace(/\r?\n/g, "<br>");
+}
+
+//converts the Event Template property into sanitized html, the {fieldname} tokens are left in the
+// html to be replaced with the values from each record.
+export function compileEventTemplate(template: string | null | undefined): string {
+  if (!template || !template.trim()) return "";
+  return DOMPurify.sanitize(markdownToHtml(template.trim()), {
+    ALLOWED_TAGS: TEMPLATE_ALLOWED_TAGS,
+    ALLOWED_ATTR: [],
+  });
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+//replaces the tokens in the compiled template with the escaped values of the fields
+export function resolveEventTemplate(
+  compiledTemplate: string,
+  getValue: (fieldName: string) => string
+): string {
+  return compiledTemplate.replace(TEMPLATE_TOKEN_PATTERN, (_, fieldName: string) =>
+    escapeHtml(getValue(fieldName))
+  );
+}
+
+//gets the text of the resolved template for tooltips, line breaks are kept
+export function getTemplateText(html: string): string {
+  const doc = new DOMParser().parseFromString(
+    html.replace(/<br\s*\/?>|<\/(p|div|li)>/gi, "\n"),
+    "text/html"
+  );
+  return (doc.body.textContent || "").replace(/\n{2,}/g, "\n").trim();
+}
@@ -0,0 +1,150 @@
+import { IInputs } from "../generated/ManifestTypes";
+import { Keys, TimeZoneConverter } from "../types";
+import * as Constants from "./Constants";
+
+//react-big-calendar always renders dates in the browser time zone, so to display another time zone
+// the dates are shifted so their local wall clock time matches the wall clock time in that zone.
+function createTimeZoneConverter(getOffset: (date: Date) => number): TimeZoneConverter {
+  return {
+    toDisplayTime: (date: Date) => {
+      const shifted = new Date(date.getTime() + getOffset(date) * 60000);
+      return new Date(
+        shifted.getUTCFullYear(),
+        shifted.getUTCMonth(),
+        shifted.getUTCDate(),
+        shifted.getUTCHours(),
+        shifted.getUTCMinutes(),
+        shifted.getUTCSeconds(),
+        shifted.getUTCMilliseconds()
+      );
+    },
+    fromDisplayTime: (date: Date) => {
+      const wallClock = Date.UTC(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate(),
+        date.getHours(),
+        date.getMinutes(),
+        date.getSeconds(),
+        date.getMilliseconds()
+      );
+      //the offset can change between the guess and the result around daylight saving changes
+      const offset = getOffset(new Date(wallClock));
+      let result = wallClock - offset * 60000;
+      const resultOffset = getOffset(new Date(result));
+      if (resultOffset !== offset) {
+        result = wallClock - resultOffset * 60000;
+      }
+      return new Date(result);
+    },
+  };
+}
+
+//gets the offset in minutes from UTC for an IANA time zone using the browsers time zone data
+function getIanaOffset(formatter: Intl.DateTimeFormat, date: Date): number {
+  const parts = formatter.formatToParts(date);
+  const getPart = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(
+    getPart("year"),
+    getPart("month") - 1,
+    getPart("day"),
+    getPart("hour"),
+    getPart("minute"),
+    getPart("second")
+  );
+  return Math.round((wallClock - (date.getTime() - date.getMilliseconds())) / 60000);
+}
+
+const browserTimeZoneConverter: TimeZoneConverter = {
+  toDisplayTime: (date: Date) => date,
+  fromDisplayTime: (date: Date) => date,
+};
+
+//converts between the actual time and the time displayed on the calendar for the Display Time Zone property.
+// the property can be an IANA time zone id, "user" for the Dataverse user setting or blank for the browser.
+export function getTimeZoneConverter(
+  pcfContext: ComponentFramework.Context<IInputs>
+): TimeZoneConverter {
+  const timeZone = (pcfContext.parameters.calendarTimeZone?.raw || "").trim();
+
+  if (!timeZone) return browserTimeZoneConverter;
+
+  if (timeZone.toLowerCase() === Constants.USER_TIME_ZONE) {
+    return getUserTimeZoneConverter(pcfContext);
+  }
+
+  const converter = getIanaTimeZoneConverter(timeZone);
+  if (!converter) {
+    console.log(`getTimeZoneConverter: ${timeZone} is not a valid time zone, using the browser time zone.`);
+    return browserTimeZoneConverter;
+  }
+  return converter;
+}
+
+//converts between the actual time and the wall clock time in an IANA time zone, undefined when the
+// browser does not know the time zone.
+export function getIanaTimeZoneConverter(timeZone: string): TimeZoneConverter | undefined {
+  try {
+    const formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    return createTimeZoneConverter((date) => getIanaOffset(formatter, date));
+  } catch (e) {
+    return undefined;
+  }
+}
+
+//converts between the actual time and the time zone in the current users Dataverse settings
+export function getUserTimeZoneConverter(
+  pcfContext: ComponentFramework.Context<IInputs>
+): TimeZoneConverter {
+  return createTimeZoneConverter((date) =>
+    pcfContext.userSettings.getTimeZoneOffsetMinutes(date)
+  );
+}
+
+//time zone independent values are returned as UTC but represent the wall clock time
+export function getTimeZoneIndependentValue(value: unknown): Date {
+  const date = new Date(value as number);
+  return new Date(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds()
+  );
+}
+
+//time zone independent values are saved with the wall clock time as UTC
+export function formatTimeZoneIndependentString(date: Date): string {
+  return new Date(
+    Date.UTC(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      date.getHours(),
+      date.getMinutes(),
+      date.getSeconds()
+    )
+  ).toISOString();
+}
+
+//converts a date shown on the calendar into the value saved on the record, time zone independent
+// and date only fields are saved with the time shown on the calendar
+export function toRecordDate(
+  keys: Keys,
+  timeZoneConverter: TimeZoneConverter,
+  date: Date
+): Date {
+  return keys.timeZoneIndependent || keys.dateOnly
+    ? date
+    : timeZoneConverter.fromDisplayTime(date);
+}
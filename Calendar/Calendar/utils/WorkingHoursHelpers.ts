@@ -0,0 +1,121 @@
+import { Resource, WorkingHours } from "../types";
+
+const MINUTES_PER_DAY = 1440;
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+//converts a time such as "08:30" or a whole number of minutes after midnight into minutes
+export function parseWorkingTime(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return value >= 0 && value <= MINUTES_PER_DAY ? value : undefined;
+  }
+  if (typeof value === "string") {
+    const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?$/);
+    if (!match) return undefined;
+    const minutes = Number(match[1]) * 60 + Number(match[2] || 0);
+    return minutes <= MINUTES_PER_DAY ? minutes : undefined;
+  }
+  return undefined;
+}
+
+//creates the working hours from a start and end time, both must be valid for the hours to be used
+export function createWorkingHours(
+  start: unknown,
+  end: unknown,
+  days?: unknown
+): WorkingHours | undefined {
+  const startMinutes = parseWorkingTime(start);
+  const endMinutes = parseWorkingTime(end);
+  if (startMinutes === undefined || endMinutes === undefined || endMinutes <= startMinutes) {
+    return undefined;
+  }
+  return {
+    start: startMinutes,
+    end: endMinutes,
+    days: Array.isArray(days)
+      ? days.map(Number).filter((d) => ALL_DAYS.includes(d))
+      : ALL_DAYS,
+  };
+}
+
+//parses the Resource Working Hours property which is keyed by resource id or name with an optional "default" entry.
+// eg. {"default": {"start": "08:00", "end": "17:00", "days": [1,2,3,4,5]}}
+export function parseWorkingHoursJson(json: string): Record<string, WorkingHours> {
+  const workingHours: Record<string, WorkingHours> = {};
+  if (!json) return workingHours;
+
+  try {
+    const parsed = JSON.parse(json);
+    Object.keys(parsed).forEach((key) => {
+      const hours = createWorkingHours(parsed[key]?.start, parsed[key]?.end, parsed[key]?.days);
+      if (hours) {
+        workingHours[key.toLowerCase()] = hours;
+      }
+    });
+  } catch (e) {
+    console.log(`parseWorkingHoursJson: unable to parse the working hours: ${e}`);
+  }
+
+  return workingHours;
+}
+
+//gets the working hours for a resource, the resource record fields take priority over the property.
+export function getResourceWorkingHours(
+  resources: Resource[] | undefined,
+  workingHoursJson: Record<string, WorkingHours>,
+  resourceId?: string | number
+): WorkingHours | undefined {
+  const resource =
+    resourceId !== undefined && resourceId !== null
+      ? resources?.find((r) => r.id === String(resourceId))
+      : undefined;
+
+  return (
+    resource?.workingHours ||
+    (resource && workingHoursJson[resource.id.toLowerCase()]) ||
+    (resource && workingHoursJson[resource.title.toLowerCase()]) ||
+    workingHoursJson["default"]
+  );
+}
+
+export function isWorkingDay(workingHours: WorkingHours | undefined, date: Date): boolean {
+  return !workingHours || workingHours.days.includes(date.getDay());
+}
+
+//checks if the time slot starting at the date is inside the working hours
+export function isWorkingSlot(workingHours: WorkingHours | undefined, date: Date): boolean {
+  if (!workingHours) return true;
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return (
+    isWorkingDay(workingHours, date) &&
+    minutes >= workingHours.start &&
+    minutes < workingHours.end
+  );
+}
+
+//checks if the whole range is inside the working hours, ranges that cover full days only check the days
+export function isWorkingRange(
+  workingHours: WorkingHours | undefined,
+  start: Date,
+  end: Date,
+  allDay: boolean
+): boolean {
+  if (!workingHours) return true;
+
+  if (allDay) {
+    const day = new Date(start);
+    while (day < end) {
+      if (!isWorkingDay(workingHours, day)) return false;
+      day.setDate(day.getDate() + 1);
+    }
+    return true;
+  }
+
+  const startOfDay = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  const startMinutes = (start.getTime() - startOfDay.getTime()) / 60000;
+  const endMinutes = (end.getTime() - startOfDay.getTime()) / 60000;
+  return (
+    isWorkingDay(workingHours, start) &&
+    startMinutes >= workingHours.start &&
+    endMinutes <= workingHours.end
+  );
+}
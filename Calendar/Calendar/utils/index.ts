@@ -1,3 +1,17 @@
 export * from "./DataHelpers"
 export * from "./CalendarHelpers"
-export * from "./Constants"
\ No newline at end of file
+export * from "./Constants"
+export * from "./RecurrenceHelpers"
+export * from "./IcsHelpers"
+export * from "./TimeZoneHelpers"
+export * from "./WorkingHoursHelpers"
+export * from "./ConflictHelpers"
+export * from "./PrintHelpers"
+export * from "./FilterHelpers"
+export * from "./SelectionHelpers"
+export * from "./HolidayHelpers"
+export * from "./TemplateHelpers"
+export * from "./HeatmapHelpers"
+export * from "./KeyboardHelpers"
+export * from "./StateHelpers"
+export * from "./MetadataHelpers"
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { SchedulerData, EventItem } from "react-big-schedule";
+import { notification } from "antd";
+
+export function createConflictOccurredCallback(message: string) {
+    // The scheduler puts the event back when Check Conflicts rejects the move or resize so the user is told why
+    return (
+        schedulerData: SchedulerData,
+        action: string,
+        event: EventItem
+    ) => {
+        notification.warning({ message: message, description: event.title, placement: "bottomRight" });
+    };
+}
@@ -4,4 +4,8 @@ export {createNewEventCallback} from "./newEvent";
 export {createToggleExpandFuncCallback} from "./toggleExpandFunc";
 export {createNextClickCallback} from "./nextClick";
 export {createPrevClickCallback} from "./prevClick";
-export {createOnViewChangeCallback} from "./onViewChange";
\ No newline at end of file
+export {createOnViewChangeCallback} from "./onViewChange";
+export {createMoveEventCallback} from "./moveEvent";
+export {createUpdateEventStartCallback} from "./updateEventStart";
+export {createUpdateEventEndCallback} from "./updateEventEnd";
+export {createConflictOccurredCallback} from "./conflictOccurred";
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { SchedulerData, EventItem } from "react-big-schedule";
+import dayjs from "dayjs";
+import { SchedulerAction } from "../../types";
+
+export function createMoveEventCallback(
+    dispatch: (action: SchedulerAction) => void,
+    onEventMoved: (event: EventItem, slotId: string, start: Date, end: Date, slotChanged: boolean) => void
+) {
+    return (
+        schedulerData: SchedulerData,
+        event: EventItem,
+        slotId: string,
+        slotName: string,
+        start: string,
+        end: string
+    ) => {
+        const slotChanged = event.resourceId !== slotId;
+        schedulerData.moveEvent(event, slotId, slotName, start, end);
+        dispatch({ type: "UPDATE_SCHEDULER", payload: schedulerData });
+        onEventMoved(event, slotId, dayjs(start).toDate(), dayjs(end).toDate(), slotChanged);
+    };
+}
@@ -1,11 +1,16 @@
 import { SchedulerData } from "react-big-schedule";
 import { SchedulerAction } from "../../types";
+import { isSlotExpanded } from "../../services/schedulerBehaviors";
 
 export function createToggleExpandFuncCallback(
     dispatch: (action: SchedulerAction) => void
 ) {
     return (schedulerData: SchedulerData, slotId: string) => {
         schedulerData.toggleExpandStatus(slotId);
-        dispatch({ type: "UPDATE_SCHEDULER", payload: schedulerData });
+        // The expanded status is kept so it is applied again when the scheduler data is rebuilt
+        dispatch({
+            type: "TOGGLE_EXPAND",
+            payload: { schedulerData, slotId, expanded: isSlotExpanded(schedulerData, slotId) }
+        });
     };
 }
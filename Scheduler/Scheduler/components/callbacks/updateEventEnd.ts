@@ -0,0 +1,14 @@
+import { SchedulerData, EventItem } from "react-big-schedule";
+import dayjs from "dayjs";
+import { SchedulerAction } from "../../types";
+
+export function createUpdateEventEndCallback(
+    dispatch: (action: SchedulerAction) => void,
+    onEventMoved: (event: EventItem, slotId: string, start: Date, end: Date, slotChanged: boolean) => void
+) {
+    return (schedulerData: SchedulerData, event: EventItem, newEnd: string) => {
+        schedulerData.updateEventEnd(event, newEnd);
+        dispatch({ type: "UPDATE_SCHEDULER", payload: schedulerData });
+        onEventMoved(event, event.resourceId, dayjs(event.start).toDate(), dayjs(newEnd).toDate(), false);
+    };
+}
@@ -1,32 +1,39 @@
 import * as React from "react";
-import { ViewType, SchedulerData, SchedulerDataConfig } from "react-big-schedule";
+import { ViewType, SchedulerData, SchedulerDataConfig, SchedulerDataBehaviors, EventItem } from "react-big-schedule";
 import SchedulerWrapper from "./schedulerWrapper";
 import { usePcfContext } from "../services/pcfContext";
 import "react-big-schedule/dist/css/style.css";
 import "../resources/schedulerOverrides.css";
 import { ISchedulerControlProps, Resource, Event, SchedulerAction } from "../types";
 import { getViewByName } from "../types/schedulerViews";
-import { getCustomDate } from "../services/schedulerBehaviors";
-import { getKeys, getSchedulerData } from "../services/calendarDataService"; // <-- Use your real data service
-import { useAvailableViews, useShowHeader, useNonWorkingTimeColors, useWorkWeekDays, useDayViewOptions, useDisplayWeekend, useSchedulerView, useSchedulerDate, useSchedulerLanguage, useResourceNameHeader } from "../hooks";
+import { getCustomDate, getResourceSummary, applyExpandStatus } from "../services/schedulerBehaviors";
+import { getKeys, getSchedulerData, updateEvent } from "../services/calendarDataService"; // <-- Use your real data service
+import { useAvailableViews, useShowHeader, useNonWorkingTimeColors, useWorkWeekDays, useDayViewOptions, useDisplayWeekend, useSchedulerView, useSchedulerDate, useSchedulerLanguage, useResourceNameHeader, useCheckConflict, useResourceSummary } from "../hooks";
 import { parseDateOnly, getLocaleFromLanguage } from "../utils/formattingHelpers";
 import '../utils/locales';
-import { createEventClickedCallback, createNewEventCallback, createOnViewChangeCallback, createPrevClickCallback, createNextClickCallback, createSlotClickedFuncCallback, createToggleExpandFuncCallback } from "./callbacks";
+import { createEventClickedCallback, createNewEventCallback, createOnViewChangeCallback, createPrevClickCallback, createNextClickCallback, createSlotClickedFuncCallback, createToggleExpandFuncCallback, createMoveEventCallback, createUpdateEventStartCallback, createUpdateEventEndCallback, createConflictOccurredCallback } from "./callbacks";
 import { eventItemTemplateResolver, eventItemPopoverTemplateResolver } from "./renderers";
 
 // Initial state for the scheduler reducer
 const initialState = {
     showScheduler: false,
     schedulerData: null as SchedulerData | null,
+    collapsedSlotIds: [] as string[],
 };
 
 // Reducer to manage scheduler state transitions
 function reducer(state: typeof initialState, action: SchedulerAction) {
     switch (action.type) {
         case "INITIALIZE":
-            return { showScheduler: true, schedulerData: action.payload };
+            return { ...state, showScheduler: true, schedulerData: applyExpandStatus(action.payload, state.collapsedSlotIds) };
         case "UPDATE_SCHEDULER":
-            return { ...state, schedulerData: action.payload };
+            // The render data is rebuilt when the resources, events or dates change so the collapsed resources are applied again
+            return { ...state, schedulerData: applyExpandStatus(action.payload, state.collapsedSlotIds) };
+        case "TOGGLE_EXPAND": {
+            const collapsedSlotIds = state.collapsedSlotIds.filter(id => id !== action.payload.slotId);
+            if (!action.payload.expanded) collapsedSlotIds.push(action.payload.slotId);
+            return { ...state, schedulerData: action.payload.schedulerData, collapsedSlotIds };
+        }
         default:
             return state;
     }
@@ -56,6 +63,8 @@ const SchedulerControl: React.FC<ISchedulerControlProps> = React.memo((props) =>
     const displayWeekend = useDisplayWeekend(pcfContext, state.schedulerData, dispatch);
     const nonWorkingTimeColors = useNonWorkingTimeColors(pcfContext, state.schedulerData, dispatch);
     const dayViewHours = useDayViewOptions(pcfContext, state.schedulerData, dispatch);
+    const checkConflict = useCheckConflict(pcfContext, state.schedulerData, dispatch);
+    const resourceSummary = useResourceSummary(pcfContext, state.schedulerData, dispatch);
     const [schedulerView, setSchedulerView] = useSchedulerView(
         pcfContext,
         availableViews,
@@ -152,16 +161,20 @@ const SchedulerControl: React.FC<ISchedulerControlProps> = React.memo((props) =>
                 dayStartFrom: dayViewHours.startHour,
                 dayStopTo: dayViewHours.endHour,
                 minuteStep: dayViewHours.minuteStep,
+                checkConflict: checkConflict,
             };
-            const schedulerConfig = { ...config, workWeekDays };
+            const schedulerConfig = { ...config, workWeekDays, resourceSummary };
 
-            // Create the SchedulerData instance
+            // Create the SchedulerData instance. The summary can be undefined to hide it even though the typings require one
             const sd = new SchedulerData(
                 new Date().toISOString().slice(0, 10),
                 viewType,
                 false,
                 false,
-                schedulerConfig, { getCustomDateFunc: getCustomDate }
+                schedulerConfig, {
+                    getCustomDateFunc: getCustomDate,
+                    getSummaryFunc: getResourceSummary as SchedulerDataBehaviors["getSummaryFunc"]
+                }
             );
             sd.setSchedulerLocale(schedulerLanguage);
             sd.setCalendarPopoverLocale(getLocaleFromLanguage(schedulerLanguage));
@@ -223,6 +236,51 @@ const SchedulerControl: React.FC<ISchedulerControlProps> = React.memo((props) =>
         [props.onNewEvent]
     );
 
+    // Handler: Save an event after it is moved or resized. Model apps update the record and Canvas apps
+    // are notified through the output properties so the record can be patched
+    const onEventMoved = React.useCallback(
+        async (event: EventItem, slotId: string, start: Date, end: Date, slotChanged: boolean) => {
+            const recordId = event.eventId as string;
+            if (pcfContext.isCanvasApp()) {
+                props.onEventMoved(recordId, slotId, start, end);
+                return;
+            }
+            try {
+                const keys = await getKeys(pcfContext.context);
+                await updateEvent(pcfContext.context, keys, recordId, start, end, slotChanged ? slotId : undefined);
+            } catch (error) {
+                pcfContext.context.navigation.openErrorDialog({ message: (error as Error).message });
+            }
+            // Refreshing reloads the saved record, or puts the event back if it could not be saved
+            pcfContext.context.parameters.schedulerDataSet.refresh();
+        },
+        [props.onEventMoved]
+    );
+
+    // Handler: Event moved to another time or resource (moved to callbacks/moveEvent.ts)
+    const moveEvent = React.useCallback(
+        createMoveEventCallback(dispatch, onEventMoved),
+        [dispatch, onEventMoved]
+    );
+
+    // Handler: Event start resized (moved to callbacks/updateEventStart.ts)
+    const updateEventStart = React.useCallback(
+        createUpdateEventStartCallback(dispatch, onEventMoved),
+        [dispatch, onEventMoved]
+    );
+
+    // Handler: Event end resized (moved to callbacks/updateEventEnd.ts)
+    const updateEventEnd = React.useCallback(
+        createUpdateEventEndCallback(dispatch, onEventMoved),
+        [dispatch, onEventMoved]
+    );
+
+    // Handler: Move or resize rejected because Check Conflicts is enabled (moved to callbacks/conflictOccurred.ts)
+    const conflictOccurred = React.useCallback(
+        createConflictOccurredCallback(pcfContext.getResourceString("conflictOccurred_Message")),
+        [pcfContext]
+    );
+
     // Render the scheduler UI or a loading state
     return (
         <div
@@ -244,6 +302,10 @@ const SchedulerControl: React.FC<ISchedulerControlProps> = React.memo((props) =>
                     toggleExpandFunc={toggleExpandFunc}
                     slotClickedFunc={slotClickedFunc}
                     newEvent={newEvent}
+                    moveEvent={moveEvent}
+                    updateEventStart={updateEventStart}
+                    updateEventEnd={updateEventEnd}
+                    conflictOccurred={conflictOccurred}
                     eventItemTemplateResolver={eventItemTemplateResolver}
                     eventItemPopoverTemplateResolver={eventItemPopoverTemplateResolver}
                 />
@@ -7,4 +7,6 @@ export { useResourceNameHeader } from "./useResourceNameHeader";
 export { useWorkWeekDays } from "./useWorkWeekDays";
 export {useDisplayWeekend} from "./useDisplayWeekend";
 export {useNonWorkingTimeColors} from "./useNonWorkingTimeColors";
-export {useDayViewOptions} from "./useDayViewOptions";
\ No newline at end of file
+export {useDayViewOptions} from "./useDayViewOptions";
+export {useCheckConflict} from "./useCheckConflict";
+export {useResourceSummary} from "./useResourceSummary";
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { useEffect, useState } from "react";
+import { SchedulerData } from "react-big-schedule";
+import { PcfContextService } from "../services/pcfContextService";
+import { SchedulerAction } from "../types";
+
+/**
+ * Hook to get the value of the schedulerCheckConflict property from PCF context.
+ * Returns true if events cannot be moved or resized over another event on the same resource.
+ * Defaults to false if the property is not set.
+ */
+export function useCheckConflict(
+    pcfContext: PcfContextService,
+    schedulerData: SchedulerData | null,
+    dispatch: (action: SchedulerAction) => void
+): boolean {
+    const getValue = () => {
+        return pcfContext.context.parameters?.schedulerCheckConflict?.raw === true;
+    };
+
+    const [checkConflict, setCheckConflict] = useState<boolean>(getValue);
+
+    useEffect(() => {
+        setCheckConflict(getValue());
+    }, [pcfContext.context.parameters.schedulerCheckConflict?.raw]);
+
+    // Effect to update the scheduler config when checkConflict changes
+    useEffect(() => {
+        if (schedulerData && schedulerData.config) {
+            schedulerData.config.checkConflict = checkConflict;
+            if (dispatch) {
+                dispatch({ type: "UPDATE_SCHEDULER", payload: schedulerData });
+            }
+        }
+    }, [checkConflict]);
+
+    return checkConflict;
+}
@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { SchedulerData } from "react-big-schedule";
+import { PcfContextService } from "../services/pcfContextService";
+import { ResourceSummaryMode, ResourceSummarySettings, SchedulerAction } from "../types";
+import { DEFAULT_RESOURCE_CAPACITY, DEFAULT_SUMMARY_COLORS, DEFAULT_SUMMARY_THRESHOLDS } from "../utils/constants";
+
+const SUMMARY_MODES: ResourceSummaryMode[] = ["none", "hours", "count", "percent"];
+
+/**
+ * Hook to get the resource summary settings from PCF context.
+ * The summary shows the booked hours, event count or percent of capacity of each resource in every cell.
+ * Defaults to none if the property is not set.
+ */
+export function useResourceSummary(
+    pcfContext: PcfContextService,
+    schedulerData: SchedulerData | null,
+    dispatch: (action: SchedulerAction) => void
+): ResourceSummarySettings {
+    const getSettings = (): ResourceSummarySettings => {
+        const params = pcfContext.context.parameters;
+        const mode = (params.resourceSummaryMode?.raw || "").trim().toLowerCase() as ResourceSummaryMode;
+        const thresholds = (params.resourceSummaryThresholds?.raw || "")
+            .split(",")
+            .map(t => parseFloat(t))
+            .filter(t => !isNaN(t))
+            .sort((a, b) => a - b);
+        const colors = (params.resourceSummaryColors?.raw || "")
+            .split(",")
+            .map(c => c.trim())
+            .filter(c => c);
+
+        // the default thresholds are percents, the hours and count summaries only change color with thresholds set
+        const defaultThresholds = mode === "percent" ? DEFAULT_SUMMARY_THRESHOLDS : [];
+
+        return {
+            mode: SUMMARY_MODES.includes(mode) ? mode : "none",
+            defaultCapacity: params.resourceDefaultCapacity?.raw ?? DEFAULT_RESOURCE_CAPACITY,
+            thresholds: thresholds.length > 0 ? thresholds : defaultThresholds,
+            colors: colors.length > 0 ? colors : DEFAULT_SUMMARY_COLORS
+        };
+    };
+
+    const [resourceSummary, setResourceSummary] = useState<ResourceSummarySettings>(getSettings);
+
+    useEffect(() => {
+        setResourceSummary(getSettings());
+    }, [
+        pcfContext.context.parameters.resourceSummaryMode?.raw,
+        pcfContext.context.parameters.resourceDefaultCapacity?.raw,
+        pcfContext.context.parameters.resourceSummaryThresholds?.raw,
+        pcfContext.context.parameters.resourceSummaryColors?.raw
+    ]);
+
+    // Effect to update the config when the settings change, the events are set again so the summaries are recalculated
+    useEffect(() => {
+        if (schedulerData && schedulerData.config) {
+            const config = schedulerData.config;
+            const updatedConfig = { ...config, resourceSummary: resourceSummary };
+            schedulerData.config = updatedConfig;
+            schedulerData.setEvents(schedulerData.events);
+            if (dispatch) {
+                dispatch({ type: "UPDATE_SCHEDULER", payload: schedulerData });
+            }
+        }
+    }, [resourceSummary]);
+
+    return resourceSummary;
+}
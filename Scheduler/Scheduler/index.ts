@@ -28,6 +28,11 @@ export class Scheduler implements ComponentFramework.StandardControl<IInputs, IO
     private _selectedSlotId: string;
     private _selectedSlotStart: Date;
     private _selectedSlotEnd: Date;
+    private _actionEventMoved: boolean;
+    private _movedRecordId: string;
+    private _movedSlotId: string;
+    private _movedStart: Date;
+    private _movedEnd: Date;
 
     // eslint-disable-next-line @typescript-eslint/no-empty-function
     constructor() {
@@ -52,6 +57,7 @@ export class Scheduler implements ComponentFramework.StandardControl<IInputs, IO
         this._actionSlotSelected = false;
         this._selectedSlotId = '';
         this._actionNewEvent = false;
+        this._actionEventMoved = false;
 
         if (this._context.mode.allocatedHeight !== -1){
 			this._container.style.height = `${(this._context.mode.allocatedHeight).toString()}px`;
@@ -93,6 +99,15 @@ export class Scheduler implements ComponentFramework.StandardControl<IInputs, IO
         this._notifyOutputChanged();
     }
 
+    public onEventMoved(recordId: string, slotId: string, start: Date, end: Date) {
+        this._movedRecordId = recordId;
+        this._movedSlotId = slotId;
+        this._movedStart = start;
+        this._movedEnd = end;
+        this._actionEventMoved = true;
+        this._notifyOutputChanged();
+    }
+
     public updateView(context: ComponentFramework.Context<IInputs>): void {
 
         if (this._updateFromOutput) {
@@ -128,6 +143,7 @@ export class Scheduler implements ComponentFramework.StandardControl<IInputs, IO
                 onClickSelectedRecord: this.onClickSelectedRecord.bind(this),
                 onClickSelectedSlot: this.onClickSelectedSlot.bind(this),
                 onNewEvent: this.onNewEvent.bind(this),
+                onEventMoved: this.onEventMoved.bind(this),
             })
         );
     }
@@ -141,7 +157,8 @@ export class Scheduler implements ComponentFramework.StandardControl<IInputs, IO
             currentRangeEnd: this._currentRangeEnd,
             currentSchedulerDate: this._currentSchedulerDate,
             currentSchedulerView: this._currentSchedulerView,
-            actionRecordSelected: this._actionRecordSelected
+            actionRecordSelected: this._actionRecordSelected,
+            actionEventMoved: this._actionEventMoved
         }
 
         if (this._actionRecordSelected) {
@@ -164,6 +181,15 @@ export class Scheduler implements ComponentFramework.StandardControl<IInputs, IO
             this._actionNewEvent = false;
         }
 
+        if (this._actionEventMoved) {
+            notifyAgain = true;
+            output.movedRecordId = this._movedRecordId;
+            output.movedSlotId = this._movedSlotId;
+            output.movedStart = this._movedStart;
+            output.movedEnd = this._movedEnd;
+            this._actionEventMoved = false;
+        }
+
         if (notifyAgain) {
             this._notifyOutputChanged();
         }
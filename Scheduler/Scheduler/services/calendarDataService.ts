@@ -2,6 +2,8 @@ import { IInputs } from "../generated/ManifestTypes";
 import { Resource, Event } from "../types/schedulerTypes";
 import DataSetInterfaces = ComponentFramework.PropertyHelper.DataSetApi;
 import dayjs from "dayjs";
+import { MAX_RESOURCE_LEVELS } from "../utils/constants";
+import { getNavigationPropertyName } from "./metadataService";
 
 export interface SchedulerKeys {
     id: string;
@@ -16,6 +18,8 @@ export interface SchedulerKeys {
     resourceGetAllInModel?: boolean;
     resourceEtn?: string;
     resourceParentId?: string;
+    resourceParentAttribute?: string;
+    resourceCapacity?: string;
 }
 
 // Gets all the field names and other keys needed while processing the data
@@ -25,6 +29,8 @@ export async function getKeys(pcfContext: ComponentFramework.Context<IInputs>):
 
     const resource = params.resourceField.raw ? getFieldName(dataSet, params.resourceField.raw) : "";
     const resourceParent = params.resourceParentField.raw ? getFieldName(dataSet, params.resourceParentField.raw) : "";
+    // The parent lookup on the related resource table, used to retrieve the parents of parents in model apps
+    const resourceParentAttribute = params.resourceParentField.raw?.includes('.') ? params.resourceParentField.raw.split('.')[1] : "";
     const resourceGetAllInModel = params.resourceGetAllInModel.raw?.toLowerCase() === "true" ? true : false;
     let resourceEtn = '';
     let resourceName = params.resourceName.raw ? getFieldName(dataSet, params.resourceName.raw) : "";
@@ -58,7 +64,9 @@ export async function getKeys(pcfContext: ComponentFramework.Context<IInputs>):
         resourceId: resourceId,
         resourceGetAllInModel: resourceGetAllInModel,
         resourceEtn: resourceEtn,
-        resourceParentId: resourceParent
+        resourceParentId: resourceParent,
+        resourceParentAttribute: resourceParentAttribute,
+        resourceCapacity: params.resourceCapacityField.raw ? getFieldName(dataSet, params.resourceCapacityField.raw) : ""
     };
 }
 
@@ -99,6 +107,7 @@ export async function getResources(
 ): Promise<Resource[]> {
     const dataSet = pcfContext.parameters.schedulerDataSet;
     const resources: Resource[] = [];
+    const parents: Resource[] = [];
     if (!keys.resource) return resources;
 
     const totalRecordCount = dataSet.sortedRecordIds.length;
@@ -111,6 +120,7 @@ export async function getResources(
         let resourceName = "";
         let resourceEtn = "";
         let resourceParentId = "";
+        const resourceCapacity = keys.resourceCapacity ? record.getValue(keys.resourceCapacity) as number : undefined;
 
         if (pcfContext.mode.allocatedHeight === -1) {
             const resourceRef = record.getValue(keys.resource) as ComponentFramework.EntityReference;
@@ -120,6 +130,13 @@ export async function getResources(
                     ? (record.getValue(keys.resourceName) as string) || "" : resourceRef.name;
                 resourceEtn = resourceRef.etn as string;
             }
+            if (keys.resourceParentId) {
+                const parentRef = record.getValue(keys.resourceParentId) as ComponentFramework.EntityReference;
+                if (parentRef) {
+                    resourceParentId = parentRef.id.guid;
+                    parents.push({ id: parentRef.id.guid, name: parentRef.name, etn: parentRef.etn as string });
+                }
+            }
         } else {
             resourceId = record.getValue(keys.resource) as string;
             resourceName = record.getValue(keys.resourceName) as string;
@@ -129,11 +146,11 @@ export async function getResources(
         }
 
         if (!resourceId) continue;
-        resources.push({ id: resourceId, name: resourceName, etn: resourceEtn, parentId: resourceParentId });
+        resources.push({ id: resourceId, name: resourceName, etn: resourceEtn, parentId: resourceParentId, capacity: resourceCapacity ?? undefined });
     }
 
     if (pcfContext.mode.allocatedHeight === -1 && keys.resource && keys.resourceGetAllInModel) {
-        await getAllResources(pcfContext, resources, keys);
+        await getAllResources(pcfContext, resources, parents, keys);
     }
 
     const distinctResources: Resource[] = [];
@@ -145,11 +162,16 @@ export async function getResources(
                 id: item.id,
                 name: item.name || '',
                 etn: item.etn,
-                parentId: item.parentId || ''
+                parentId: item.parentId || '',
+                capacity: item.capacity
             });
         }
     }
 
+    if (pcfContext.mode.allocatedHeight === -1 && parents.length > 0) {
+        await getParentResources(pcfContext, distinctResources, parents, keys);
+    }
+
     return distinctResources;
 }
 
@@ -200,10 +222,12 @@ export async function getEvents(
     return newEvents;
 }
 
-// Retrieves all resources for model-driven apps if needed
+// Retrieves all resources for model-driven apps if needed, their parents are added to the parents list
+// so the ones without events are displayed as well
 export async function getAllResources(
     pcfContext: ComponentFramework.Context<IInputs>,
     resources: Resource[],
+    parents: Resource[],
     keys: SchedulerKeys
 ): Promise<void> {
     if (!keys || !keys.resourceName || !keys.resourceEtn || !keys.resourceId) {
@@ -214,7 +238,11 @@ export async function getAllResources(
         keys.resourceName.indexOf(".") === -1
             ? keys.resourceName
             : keys.resourceName.split(".")[1];
-    const options = keys.resourceName ? `?$select=${resourceName}` : undefined;
+    const parentValue = keys.resourceParentAttribute ? `_${keys.resourceParentAttribute}_value` : "";
+    const capacity = keys.resourceCapacity ? keys.resourceCapacity.split(".").pop() ?? "" : "";
+    const options = keys.resourceName
+        ? `?$select=${[resourceName, parentValue, capacity].filter(f => f).join(",")}`
+        : undefined;
 
     const allResources = await pcfContext.webAPI.retrieveMultipleRecords(
         keys.resourceEtn,
@@ -224,11 +252,103 @@ export async function getAllResources(
 
     allResources.entities.forEach((e: ComponentFramework.WebApi.Entity) => {
         if (keys.resourceId && resourceName in e && keys.resourceId in e) {
+            const parentId = parentValue ? e[parentValue] as string || "" : "";
             resources.push({
                 id: e[keys.resourceId],
                 name: e[resourceName],
-                etn: keys.resourceEtn ?? ""
+                etn: keys.resourceEtn ?? "",
+                parentId: parentId,
+                capacity: capacity ? e[capacity] ?? undefined : undefined
             });
+            if (parentId) {
+                parents.push({
+                    id: parentId,
+                    name: e[`${parentValue}@OData.Community.Display.V1.FormattedValue`] || '',
+                    etn: e[`${parentValue}@Microsoft.Dynamics.CRM.lookuplogicalname`] || keys.resourceEtn
+                });
+            }
         }
     });
+}
+
+// Updates the start, end and resource of an event record in model-driven apps after it is moved or resized
+export async function updateEvent(
+    pcfContext: ComponentFramework.Context<IInputs>,
+    keys: SchedulerKeys,
+    recordId: string,
+    start: Date,
+    end: Date,
+    resourceId?: string
+): Promise<void> {
+    const dataSet = pcfContext.parameters.schedulerDataSet;
+    const data: ComponentFramework.WebApi.Entity = {
+        [keys.start]: start.toISOString(),
+        [keys.end]: end.toISOString()
+    };
+
+    // The resource lookup is only updated when the event was moved to another resource row
+    if (resourceId && keys.resource && keys.resourceEtn) {
+        // The lookup is bound with the case sensitive navigation property of its relationship
+        // @ts-expect-error page is available in model apps
+        const baseUrl = pcfContext.page.getClientUrl() as string;
+        const navigationProperty = await getNavigationPropertyName(
+            baseUrl, dataSet.getTargetEntityType(), keys.resource, keys.resourceEtn);
+        if (!navigationProperty) {
+            throw new Error(`The relationship of ${keys.resource} to ${keys.resourceEtn} was not found.`);
+        }
+        const resourceMeta = await pcfContext.utils.getEntityMetadata(keys.resourceEtn);
+        data[`${navigationProperty}@odata.bind`] = `/${resourceMeta.EntitySetName}(${resourceId})`;
+    }
+
+    await pcfContext.webAPI.updateRecord(dataSet.getTargetEntityType(), recordId, data);
+}
+
+
+// Adds the parent resources that are not in the list so every level of the hierarchy is displayed in model-driven apps.
+// Parents from the same table as the resources are retrieved to find their own parent until the top level is reached.
+// Parents from another table are only used to group the resources, events cannot be dropped or created on them.
+export async function getParentResources(
+    pcfContext: ComponentFramework.Context<IInputs>,
+    resources: Resource[],
+    parents: Resource[],
+    keys: SchedulerKeys
+): Promise<void> {
+    let missingParents = parents.filter((p, i) =>
+        !resources.some(r => r.id === p.id) && parents.findIndex(x => x.id === p.id) === i);
+
+    for (let level = 0; missingParents.length > 0 && level < MAX_RESOURCE_LEVELS; level++) {
+        missingParents.forEach(p => resources.push({
+            id: p.id,
+            name: p.name || '',
+            etn: p.etn,
+            parentId: '',
+            groupOnly: p.etn !== keys.resourceEtn
+        }));
+
+        const parentIds = missingParents.filter(p => p.etn === keys.resourceEtn).map(p => p.id);
+        if (!keys.resourceParentAttribute || !keys.resourceEtn || !keys.resourceId || parentIds.length === 0) return;
+
+        const parentValue = `_${keys.resourceParentAttribute}_value`;
+        const filter = parentIds.map(id => `${keys.resourceId} eq ${id}`).join(" or ");
+        const parentRecords = await pcfContext.webAPI.retrieveMultipleRecords(
+            keys.resourceEtn,
+            `?$select=${parentValue}&$filter=${filter}`
+        );
+
+        const nextParents: Resource[] = [];
+        parentRecords.entities.forEach((e: ComponentFramework.WebApi.Entity) => {
+            const parentId = e[parentValue] as string;
+            if (!parentId) return;
+            const resource = resources.find(r => r.id === e[keys.resourceId]);
+            if (resource) resource.parentId = parentId;
+            if (!resources.some(r => r.id === parentId) && !nextParents.some(r => r.id === parentId)) {
+                nextParents.push({
+                    id: parentId,
+                    name: e[`${parentValue}@OData.Community.Display.V1.FormattedValue`] || '',
+                    etn: e[`${parentValue}@Microsoft.Dynamics.CRM.lookuplogicalname`] || keys.resourceEtn
+                });
+            }
+        });
+        missingParents = nextParents;
+    }
 }
\ No newline at end of file
@@ -44,6 +44,42 @@ export const getEntities = async (
   }
 };
 
+// Returns the case sensitive navigation property used to bind a lookup, it is not always the same as the
+// logical name of the lookup. Undefined is returned when the lookup has no relationship to the related table.
+export const getNavigationPropertyName = async (
+  baseUrl: string,
+  entityName: string,
+  attribute: string,
+  relatedEntityName: string
+): Promise<string | undefined> => {
+  const filter = `ReferencingAttribute%20eq%20'${attribute}'`;
+  const url = `${baseUrl}/api/data/v9.1/EntityDefinitions(LogicalName='${entityName}')/ManyToOneRelationships?$select=ReferencedEntity,ReferencingEntityNavigationPropertyName&$filter=${filter}`;
+
+  try {
+    const response: AxiosResponse = await axios.get(url, {
+      headers: {
+        "OData-MaxVersion": "4.0",
+        "OData-Version": "4.0",
+        Accept: "application/json",
+        "Content-Type": "application/json; charset=utf-8",
+      },
+    });
+
+    const relationships = response.data.value as {
+      ReferencedEntity: string;
+      ReferencingEntityNavigationPropertyName: string;
+    }[];
+    return relationships.find((r) => r.ReferencedEntity === relatedEntityName)
+      ?.ReferencingEntityNavigationPropertyName;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      throw new Error(error.response?.statusText ?? error.message);
+    } else {
+      throw error;
+    }
+  }
+};
+
 export const getBaseUrl = (): string | undefined => {
   // @ts-expect-error context is available in model apps
   return (context as any).page.getClientUrl() as string;
@@ -1,5 +1,5 @@
 import { ViewType, CellUnit, SchedulerData } from "react-big-schedule";
-import { ExtendedSchedulerData, ExtendedSchedulerDataConfig } from "../types";
+import { ExtendedSchedulerData, ExtendedSchedulerDataConfig, Slot, Resource } from "../types";
 import { Dayjs } from "dayjs";
 import weekday from "dayjs/plugin/weekday";
 
@@ -50,4 +50,105 @@ export const getCustomDate = (
         endDate: end.format("YYYY-MM-DD"),
         cellUnit
     };
+};
+
+// Gets the resource rows the scheduler renders, including their indent and expanded status
+const getRenderSlots = (schedulerData: SchedulerData): Slot[] => {
+    return (schedulerData as unknown as { renderData: Slot[] }).renderData || [];
+};
+
+export const isSlotExpanded = (schedulerData: SchedulerData, slotId: string): boolean => {
+    return getRenderSlots(schedulerData).find(s => s.slotId === slotId)?.expanded !== false;
+};
+
+// Collapses the resources that were collapsed by the user after the render data has been rebuilt.
+// Parents are before their children in the render data so nested resources stay hidden.
+export const applyExpandStatus = (schedulerData: SchedulerData, collapsedSlotIds: string[]): SchedulerData => {
+    if (collapsedSlotIds.length === 0) return schedulerData;
+    getRenderSlots(schedulerData).forEach(slot => {
+        if (slot.hasChildren && slot.expanded && collapsedSlotIds.includes(slot.slotId)) {
+            schedulerData.toggleExpandStatus(slot.slotId);
+        }
+    });
+    return schedulerData;
+};
+
+// Gets the id of the resource and all the resources below it in the hierarchy
+const getResourceTreeIds = (resources: Resource[], slotId: string): string[] => {
+    const ids = [slotId];
+    // The ids added while looping are visited too so every level below the resource is included
+    for (const id of ids) {
+        resources.forEach(r => {
+            if (r.parentId === id && !ids.includes(r.id)) ids.push(r.id);
+        });
+    }
+    return ids;
+};
+
+// Shows how loaded a resource is in each cell as the booked hours, number of events or percent of its capacity.
+// Group rows add up the events and capacity of the resources below them.
+export const getResourceSummary = (
+    schedulerData: ExtendedSchedulerData,
+    headerEvents: unknown[],
+    slotId: string,
+    slotName: string,
+    headerStart: string,
+    headerEnd: string
+): { text: string; color: string; fontSize: string } | undefined => {
+    const settings = schedulerData.config.resourceSummary;
+    // The scheduler only displays a summary when one is returned
+    if (!settings || settings.mode === "none" || schedulerData.isEventPerspective) return undefined;
+
+    const { localeDayjs } = schedulerData;
+    const resources = schedulerData.resources as Resource[];
+    const slotIds = getResourceTreeIds(resources, slotId);
+    const cellStart = localeDayjs(headerStart);
+    const cellEnd = localeDayjs(headerEnd);
+
+    let count = 0;
+    let hours = 0;
+    schedulerData.events.forEach(e => {
+        if (!slotIds.includes(e.resourceId)) return;
+        const start = localeDayjs(e.start);
+        const end = localeDayjs(e.end);
+        if (!start.isBefore(cellEnd) || !end.isAfter(cellStart)) return;
+        count += 1;
+        const bookedStart = start.isAfter(cellStart) ? start : cellStart;
+        const bookedEnd = end.isBefore(cellEnd) ? end : cellEnd;
+        hours += bookedEnd.diff(bookedStart, "minute") / 60;
+    });
+    if (count === 0) return undefined;
+
+    let value: number;
+    let text: string;
+    if (settings.mode === "count") {
+        value = count;
+        text = count.toString();
+    } else if (settings.mode === "hours") {
+        value = Math.round(hours * 10) / 10;
+        text = `${value}h`;
+    } else {
+        // Only the resources at the bottom of the tree have capacity. The capacity per day is spread over the
+        // hours displayed in a day so cells shorter than a day get their share of it
+        const cellHours = cellEnd.diff(cellStart, "minute") / 60;
+        const dayHours = cellHours < 24
+            ? Math.max((schedulerData.config.dayStopTo ?? 23) - (schedulerData.config.dayStartFrom ?? 0) + 1, cellHours)
+            : 24;
+        const capacity = slotIds
+            .filter(id => !resources.some(r => r.parentId === id))
+            .reduce((total, id) => {
+                const resourceCapacity = resources.find(r => r.id === id)?.capacity ?? settings.defaultCapacity;
+                return total + resourceCapacity * cellHours / dayHours;
+            }, 0);
+        // Any booking of a resource without capacity is over its capacity
+        value = capacity > 0 ? Math.round(hours / capacity * 100) : Number.POSITIVE_INFINITY;
+        text = capacity > 0 ? `${value}%` : ">100%";
+    }
+
+    const level = settings.thresholds.filter(t => value >= t).length;
+    return {
+        text: text,
+        color: settings.colors[Math.min(level, settings.colors.length - 1)],
+        fontSize: "12px"
+    };
 };
\ No newline at end of file
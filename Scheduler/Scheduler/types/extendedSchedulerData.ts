@@ -1,8 +1,10 @@
 import { SchedulerData, SchedulerDataConfig, EventItem, SchedulerDataBehaviors } from "react-big-schedule";
+import { ResourceSummarySettings } from "./schedulerTypes";
 
 export interface ExtendedSchedulerDataConfig extends SchedulerDataConfig {
     workWeekDays?: number[];
     eventItemPopoverShowColor?: boolean; // <-- add this line
+    resourceSummary?: ResourceSummarySettings;
 }
 
 export class ExtendedSchedulerData<EventType extends EventItem = EventItem> extends SchedulerData<EventType> {
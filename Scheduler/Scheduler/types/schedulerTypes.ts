@@ -16,6 +16,8 @@ import { IInputs } from "../generated/ManifestTypes";
  */
 export interface Resource extends SchedulerResource {
     etn: string;
+    /** Hours the resource can be booked per day, used by the percent summary */
+    capacity?: number;
 }
 
 
@@ -43,6 +45,23 @@ export interface Slot extends ResourceEvent<EventItem> {
     rowMaxCount: number;    
 }
 
+/**
+ * What the resource summary shows in each cell of the scheduler.
+ */
+export type ResourceSummaryMode = "none" | "hours" | "count" | "percent";
+
+/**
+ * Settings for the resource utilization summary shown in each cell.
+ */
+export interface ResourceSummarySettings {
+    mode: ResourceSummaryMode;
+    /** Hours a resource can be booked per day when it has no capacity */
+    defaultCapacity: number;
+    /** Values where the summary changes to the next color */
+    thresholds: number[];
+    colors: string[];
+}
+
 /**
  * Demo data structure for generated demo data.
  */
@@ -71,6 +90,8 @@ export interface ISchedulerControlProps extends Partial<SchedulerProps<Event>> {
     onClickSelectedSlot: (slotId: string) => void;
     /** Callback when a new event is requested (slot selection) */
     onNewEvent: (slotId: string, start: Date, end: Date ) => void;
+    /** Callback when an event is moved or resized (Canvas apps) */
+    onEventMoved: (recordId: string, slotId: string, start: Date, end: Date) => void;
 }
 
 
@@ -79,4 +100,5 @@ export interface ISchedulerControlProps extends Partial<SchedulerProps<Event>> {
  */
 export type SchedulerAction =
     | { type: "INITIALIZE"; payload: SchedulerData }
-    | { type: "UPDATE_SCHEDULER"; payload: SchedulerData };
\ No newline at end of file
+    | { type: "UPDATE_SCHEDULER"; payload: SchedulerData }
+    | { type: "TOGGLE_EXPAND"; payload: { schedulerData: SchedulerData; slotId: string; expanded: boolean } };
\ No newline at end of file
@@ -17,4 +17,24 @@ export const DEFAULT_TIME_FORMAT = "HH:mm:ss";
 /**
  * Supported language codes for localization
  */
-export const SUPPORTED_LANGUAGES = ["en", "es", "fr", "de", "pt"];
\ No newline at end of file
+export const SUPPORTED_LANGUAGES = ["en", "es", "fr", "de", "pt"];
+
+/**
+ * Maximum number of parent levels retrieved for the resource hierarchy in model-driven apps
+ */
+export const MAX_RESOURCE_LEVELS = 10;
+
+/**
+ * Default hours a resource can be booked per day for the percent summary
+ */
+export const DEFAULT_RESOURCE_CAPACITY = 8;
+
+/**
+ * Default values where the resource summary changes color
+ */
+export const DEFAULT_SUMMARY_THRESHOLDS = [80, 100];
+
+/**
+ * Default resource summary colors, from the lowest to the highest load
+ */
+export const DEFAULT_SUMMARY_COLORS = ["#107c10", "#ca5010", "#d13438"];
\ No newline at end of file